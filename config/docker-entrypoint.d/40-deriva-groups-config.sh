@@ -0,0 +1,34 @@
+#!/bin/sh
+# Generate the runtime configuration (config.json) from environment variables
+# at container start. When none of the variables are set the config.json
+# shipped with the image is left untouched. Invalid JSON stops the container
+# instead of leaving the app to fall back to its defaults.
+set -e
+
+CONFIG_FILE=/usr/share/nginx/html/config.json
+
+if [ -n "$DERIVA_GROUPS_CONFIG" ]; then
+    if ! printf '%s\n' "$DERIVA_GROUPS_CONFIG" | jq -e 'type == "object"' > /dev/null; then
+        echo "$0: DERIVA_GROUPS_CONFIG is not a JSON object" >&2
+        exit 1
+    fi
+    echo "$0: writing $CONFIG_FILE from DERIVA_GROUPS_CONFIG"
+    printf '%s\n' "$DERIVA_GROUPS_CONFIG" > "$CONFIG_FILE"
+    exit 0
+fi
+
+# jq quotes the values, so quotes and backslashes in them stay valid JSON
+config=$(jq -n \
+    --arg baseUrl "$DERIVA_GROUPS_BASE_URL" \
+    --arg apiBasePath "$DERIVA_GROUPS_API_BASE_PATH" \
+    --arg authApiBasePath "$DERIVA_GROUPS_AUTH_API_BASE_PATH" \
+    --arg uiBasePath "$DERIVA_GROUPS_UI_BASE_PATH" \
+    --arg apiUrl "$DERIVA_GROUPS_API_URL" \
+    --arg authUrl "$DERIVA_GROUPS_AUTH_URL" \
+    '{$baseUrl, $apiBasePath, $authApiBasePath, $uiBasePath, $apiUrl, $authUrl}
+     | with_entries(select(.value != ""))')
+
+if [ "$config" != "{}" ]; then
+    echo "$0: writing $CONFIG_FILE from environment"
+    printf '%s\n' "$config" > "$CONFIG_FILE"
+fi
@@ -2,30 +2,21 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster, toast, ToastBar } from 'react-hot-toast';
 import { AuthProvider } from './shared/contexts/AuthContext';
+import { useConfig } from './shared/contexts/ConfigContext';
 import Layout from './shared/components/Layout';
 import Dashboard from './apps/groups/pages/Dashboard';
 import Groups from './apps/groups/pages/Groups';
 import GroupDetail from './apps/groups/pages/GroupDetail';
 import Invitations from './apps/groups/pages/Invitations';
+import MyJoinRequests from './apps/groups/pages/MyJoinRequests';
+import ReviewInbox from './apps/groups/pages/ReviewInbox';
 import AcceptInvitation from './apps/groups/pages/AcceptInvitation';
 import RequestToJoin from './apps/groups/pages/RequestToJoin';
 import ProtectedRoute from './shared/components/ProtectedRoute';
 
 function App() {
-  // Get the base path for React Router from environment variables
-  const getBasename = () => {
-    // Use environment variable for UI base path
-    if (import.meta.env.VITE_UI_BASE_PATH) {
-      return import.meta.env.VITE_UI_BASE_PATH;
-    }
-    // Fallback for development
-    return '/deriva/apps/groups';
-  };
-
-  console.log("=== ENV VAR TEST ===");
-  console.log("import.meta.env:", import.meta.env);
-
-  const basename = getBasename();
+  // Base path for React Router comes from the runtime configuration
+  const { uiBasePath: basename } = useConfig();
 
   return (
     <AuthProvider>
@@ -69,6 +60,8 @@ function App() {
               <Route path="detail" element={<Groups />} />
               <Route path="detail/:groupId" element={<GroupDetail />} />
               <Route path="invitations" element={<Invitations />} />
+              <Route path="join-requests" element={<MyJoinRequests />} />
+              <Route path="review" element={<ReviewInbox />} />
             </Route>
           </Routes>
         </div>
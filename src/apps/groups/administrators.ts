@@ -0,0 +1,45 @@
+import { Group, GroupMembership } from '../../shared/utils/api';
+import { PendingRemoval } from '../../shared/hooks/useMemberMutations';
+import { MemberRole } from './hooks/useMemberFilters';
+
+const isAdministrator = (member: GroupMembership) => member.role === 'administrator';
+
+// Administrators left once in-flight changes settle. A fully loaded members
+// list already reflects optimistic role changes and held removals. When only
+// the first page is loaded, the server's role_distribution is used instead,
+// less the administrators whose removal is still held.
+export const countAdministrators = (
+  group: Group | undefined,
+  members: GroupMembership[],
+  options: { complete: boolean; pendingRemovals?: PendingRemoval[] }
+) => {
+  const serverCount = group?.role_distribution?.administrator;
+  if (options.complete || serverCount === undefined) {
+    return members.filter(isAdministrator).length;
+  }
+  const held = (options.pendingRemovals || []).filter((r) => isAdministrator(r.member)).length;
+  return serverCount - held;
+};
+
+// Administrators that a role change or removal takes away. A role of
+// undefined means the members are being removed.
+export const demotedAdministrators = (affected: GroupMembership[], role?: MemberRole) =>
+  role === 'administrator' ? [] : affected.filter(isAdministrator);
+
+// Why a role change or removal would leave the group without an
+// administrator, or null if it is allowed
+export const lastAdministratorBlock = (
+  administratorCount: number,
+  affected: GroupMembership[],
+  role?: MemberRole
+): string | null => {
+  const demoted = demotedAdministrators(affected, role);
+  if (demoted.length === 0 || administratorCount - demoted.length > 0) {
+    return null;
+  }
+
+  const subject = demoted.length === 1
+    ? `${demoted[0].user_email} is the only administrator`
+    : `These are the group's only ${demoted.length} administrators`;
+  return `${subject}. A group must keep at least one administrator; promote another member or transfer ownership first.`;
+};
@@ -0,0 +1,79 @@
+import { AuditEvent, AuditEventCategory } from '../../shared/utils/api';
+
+export const categoryLabels: Record<AuditEventCategory, string> = {
+  membership: 'Membership',
+  role: 'Roles',
+  invitation: 'Invitations',
+  join_request: 'Join requests',
+  settings: 'Settings',
+};
+
+const changedRole = (event: AuditEvent) => event.changes?.role;
+
+// One-line description of an event, e.g. "changed a@b.org from member to
+// manager". The actor is shown separately. Unknown actions fall back to the
+// raw action name so new server events still show up.
+export const describeAuditEvent = (
+  event: AuditEvent,
+  getUserLabel: (userId: string) => string,
+  currentUserId?: string
+) => {
+  const isCurrentUser = !!currentUserId && event.target_id === currentUserId;
+  const target = isCurrentUser
+    ? 'you'
+    : event.target_email || (event.target_id ? getUserLabel(event.target_id) : 'someone');
+  const role = changedRole(event);
+
+  switch (event.action) {
+    case 'member.added':
+      return `added ${target}${event.details?.role ? ` as ${event.details.role}` : ''}`;
+    case 'member.removed':
+      return `removed ${target}`;
+    case 'member.left':
+      return 'left the group';
+    case 'role.changed':
+      if (isCurrentUser) {
+        return role ? `changed your role from ${role.from} to ${role.to}` : 'changed your role';
+      }
+      return role ? `changed ${target} from ${role.from} to ${role.to}` : `changed the role of ${target}`;
+    case 'invitation.created':
+      return `invited ${target}${event.details?.role ? ` as ${event.details.role}` : ''}`;
+    case 'invitation.resent':
+      return `resent the invitation to ${target}`;
+    case 'invitation.revoked':
+      return `revoked the invitation to ${target}`;
+    case 'invitation.accepted':
+      return 'accepted an invitation';
+    case 'invitation.declined':
+      return 'declined an invitation';
+    case 'join_request.created':
+      return 'requested to join';
+    case 'join_request.cancelled':
+      return 'cancelled their join request';
+    case 'join_request.approved':
+      return `approved the join request from ${target}`;
+    case 'join_request.denied':
+      return `denied the join request from ${target}`;
+    case 'group.updated': {
+      const fields = Object.keys(event.changes || {});
+      return fields.length > 0 ? `updated the group ${fields.join(', ')}` : 'updated the group settings';
+    }
+    default:
+      return event.action.replace(/[._]/g, ' ');
+  }
+};
+
+export const getCategoryBadgeClass = (category: AuditEventCategory) => {
+  switch (category) {
+    case 'membership':
+      return 'bg-green-100 text-green-800';
+    case 'role':
+      return 'bg-purple-100 text-purple-800';
+    case 'invitation':
+      return 'bg-blue-100 text-blue-800';
+    case 'join_request':
+      return 'bg-yellow-100 text-yellow-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
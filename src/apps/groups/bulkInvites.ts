@@ -0,0 +1,97 @@
+import { GroupInvitation, GroupMembership } from '../../shared/utils/api';
+import { MEMBER_ROLES, MemberRole } from './hooks/useMemberFilters';
+
+// Parsing and validation for bulk invitations. Input is either a pasted list
+// of addresses (separated by commas, semicolons or whitespace) or a CSV with
+// `email,role` columns; rows without a role use the default role.
+
+export type BulkInviteStatus = 'ready' | 'invalid' | 'duplicate' | 'member' | 'invited';
+
+export interface BulkInviteRow {
+  email: string;
+  role: MemberRole;
+  status: BulkInviteStatus;
+  reason?: string;
+}
+
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+const isRole = (value: string): value is MemberRole =>
+  MEMBER_ROLES.includes(value as MemberRole);
+
+const splitFields = (line: string) => line.split(/[,;\t]/).map((field) => field.trim().replace(/^"|"$/g, ''));
+
+interface ParsedEntry {
+  email: string;
+  role?: string;
+}
+
+const parseEntries = (text: string): ParsedEntry[] => {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  // CSV with a header row: pick the email and role columns by name
+  const header = splitFields(lines[0]).map((field) => field.toLowerCase());
+  const emailColumn = header.indexOf('email');
+  if (emailColumn !== -1) {
+    const roleColumn = header.indexOf('role');
+    return lines.slice(1).map((line) => {
+      const fields = splitFields(line);
+      return {
+        email: fields[emailColumn] || '',
+        role: roleColumn === -1 ? undefined : fields[roleColumn],
+      };
+    });
+  }
+
+  return lines.flatMap((line) => {
+    const fields = splitFields(line).filter(Boolean);
+    // `email,role` without a header
+    if (fields.length === 2 && !fields[1].includes('@')) {
+      return [{ email: fields[0], role: fields[1] }];
+    }
+    return fields.flatMap((field) => field.split(/\s+/)).map((email) => ({ email }));
+  });
+};
+
+// Only administrators may invite administrators
+export const parseBulkInvites = (
+  text: string,
+  defaultRole: MemberRole,
+  members: GroupMembership[],
+  invitations: GroupInvitation[],
+  canAdmin: boolean
+): BulkInviteRow[] => {
+  const memberEmails = new Set(members.map((m) => m.user_email?.toLowerCase()));
+  const invitedEmails = new Set(
+    invitations.filter((i) => i.status === 'pending').map((i) => i.email.toLowerCase())
+  );
+  const seen = new Set<string>();
+
+  return parseEntries(text).map(({ email, role }): BulkInviteRow => {
+    const normalized = email.toLowerCase();
+    const roleValue = role?.toLowerCase() || defaultRole;
+    const row = { email, role: isRole(roleValue) ? roleValue : defaultRole };
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return { ...row, status: 'invalid', reason: 'Invalid email address' };
+    }
+    if (!isRole(roleValue)) {
+      return { ...row, status: 'invalid', reason: `Unknown role "${role}"` };
+    }
+    if (roleValue === 'administrator' && !canAdmin) {
+      return { ...row, status: 'invalid', reason: 'Only administrators can invite administrators' };
+    }
+    if (seen.has(normalized)) {
+      return { ...row, status: 'duplicate', reason: 'Listed more than once' };
+    }
+    seen.add(normalized);
+    if (memberEmails.has(normalized)) {
+      return { ...row, status: 'member', reason: 'Already a member' };
+    }
+    if (invitedEmails.has(normalized)) {
+      return { ...row, status: 'invited', reason: 'Already has a pending invitation' };
+    }
+    return { ...row, status: 'ready' };
+  });
+};
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { groupsAPI } from '../../../shared/utils/api';
+import { fetchAllGroupMembers } from '../../../shared/hooks/useGroupsQueries';
+import { runWithConcurrency } from '../../../shared/utils/concurrency';
+import { BulkResult } from '../../../shared/components/BulkResultsModal';
+import { BulkInviteRow, BulkInviteStatus, parseBulkInvites } from '../bulkInvites';
+import { MemberRole } from '../hooks/useMemberFilters';
+import { DEFAULT_EXPIRY_DAYS, invitationData } from '../invitations';
+import InvitationOptionsFields from './InvitationOptionsFields';
+import toast from 'react-hot-toast';
+
+interface BulkInviteFormProps {
+  groupId: string;
+  // Whether the current user may invite administrators
+  canAdmin: boolean;
+  onCancel: () => void;
+  onComplete: (results: BulkResult[]) => void;
+}
+
+const statusBadges: Record<BulkInviteStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'badge-success' },
+  invalid: { label: 'Invalid', className: 'badge-danger' },
+  duplicate: { label: 'Duplicate', className: 'badge-warning' },
+  member: { label: 'Member', className: 'badge-warning' },
+  invited: { label: 'Invited', className: 'badge-warning' },
+};
+
+const BulkInviteForm: React.FC<BulkInviteFormProps> = ({ groupId, canAdmin, onCancel, onComplete }) => {
+  const [text, setText] = useState('');
+  const [defaultRole, setDefaultRole] = useState<MemberRole>('member');
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_EXPIRY_DAYS);
+  const [message, setMessage] = useState('');
+  const [rows, setRows] = useState<BulkInviteRow[] | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+
+  const readyRows = rows?.filter((row) => row.status === 'ready') || [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+    } catch (error) {
+      console.error('Failed to read file:', error);
+      toast.error('Failed to read file');
+    }
+  };
+
+  // Validate against the full member list and current invitations, not just
+  // what the group page has loaded
+  const handlePreview = async () => {
+    try {
+      setValidating(true);
+      const [members, invitationsResponse] = await Promise.all([
+        fetchAllGroupMembers(groupId),
+        groupsAPI.getGroupInvitations(groupId),
+      ]);
+      setRows(parseBulkInvites(text, defaultRole, members, invitationsResponse.data.invitations, canAdmin));
+    } catch (error: any) {
+      console.error('Failed to validate invitations:', error);
+      toast.error(error.userMessage || 'Failed to validate invitations');
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!rows) return;
+
+    setProgress({ completed: 0, total: readyRows.length });
+    const sent = await runWithConcurrency(
+      readyRows,
+      (row) => groupsAPI.createInvitation(groupId, invitationData(row.email, row.role, expiresInDays, message)),
+      { onProgress: (completed, total) => setProgress({ completed, total }) }
+    );
+    setProgress(null);
+
+    const skipped = rows.filter((row) => row.status !== 'ready');
+    onComplete([
+      ...sent.map(({ item, ok, error }) => ({
+        label: item.email,
+        ok,
+        message: ok ? `Invited as ${item.role}` : error?.userMessage || 'Failed to send invitation',
+      })),
+      ...skipped.map((row) => ({ label: row.email || '(blank)', ok: false, message: `Skipped: ${row.reason}` })),
+    ]);
+  };
+
+  if (rows) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">
+          {readyRows.length} of {rows.length} addresses will be invited.
+          {readyRows.length < rows.length && ' The rest will be skipped.'}
+        </p>
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {rows.map((row, index) => (
+            <li key={index} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-gray-900 truncate">{row.email || '(blank)'}</div>
+                {row.reason && <div className="text-red-600">{row.reason}</div>}
+              </div>
+              <div className="ml-3 flex items-center space-x-2 flex-shrink-0">
+                <span className="text-gray-500 capitalize">{row.role}</span>
+                <span className={statusBadges[row.status].className}>
+                  {statusBadges[row.status].label}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+          <button
+            type="button"
+            onClick={handleSend}
+            disabled={!!progress || readyRows.length === 0}
+            className="inline-flex w-full justify-center rounded-md bg-primary-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-primary-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-600 sm:col-start-2 disabled:opacity-50"
+          >
+            {progress
+              ? `Sending ${progress.completed} of ${progress.total}...`
+              : `Send ${readyRows.length} Invitation${readyRows.length === 1 ? '' : 's'}`}
+          </button>
+          <button
+            type="button"
+            disabled={!!progress}
+            className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0 disabled:opacity-50"
+            onClick={() => setRows(null)}
+          >
+            Back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between">
+          <label htmlFor="bulk-emails" className="form-label">
+            Email Addresses
+          </label>
+          <label className="text-sm text-primary-600 hover:text-primary-500 cursor-pointer inline-flex items-center">
+            <ArrowUpTrayIcon className="mr-1 h-4 w-4" />
+            Upload CSV
+            <input type="file" accept=".csv,text/csv,text/plain" onChange={handleFile} className="sr-only" />
+          </label>
+        </div>
+        <textarea
+          id="bulk-emails"
+          rows={8}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="form-input font-mono text-sm"
+          placeholder={'alice@example.org\nbob@example.org, manager'}
+        />
+        <p className="mt-1 text-sm text-gray-500">
+          Paste addresses separated by commas or new lines, or upload a CSV with email and role columns.
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="bulk-role" className="form-label">
+          Default Role
+        </label>
+        <select
+          id="bulk-role"
+          value={defaultRole}
+          onChange={(e) => setDefaultRole(e.target.value as MemberRole)}
+          className="form-input"
+        >
+          <option value="member">Member</option>
+          <option value="manager">Manager</option>
+          {canAdmin && <option value="administrator">Administrator</option>}
+        </select>
+        <p className="mt-1 text-sm text-gray-500">Used for rows that don't specify a role.</p>
+      </div>
+
+      <InvitationOptionsFields
+        expiresInDays={expiresInDays}
+        message={message}
+        onExpiresInDaysChange={setExpiresInDays}
+        onMessageChange={setMessage}
+      />
+
+      <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={validating || !text.trim()}
+          className="inline-flex w-full justify-center rounded-md bg-primary-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-primary-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-600 sm:col-start-2 disabled:opacity-50"
+        >
+          {validating ? 'Checking...' : 'Preview'}
+        </button>
+        <button
+          type="button"
+          className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkInviteForm;
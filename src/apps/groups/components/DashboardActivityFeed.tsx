@@ -0,0 +1,148 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BellAlertIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import { AuditEvent, Group, JoinRequest } from '../../../shared/utils/api';
+import { useMyActivity, usePendingReviews } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import { describeAuditEvent } from '../auditEvents';
+import toast from 'react-hot-toast';
+
+interface DashboardActivityFeedProps {
+  // The user's groups; undefined while they are loading
+  groups: Group[] | undefined;
+  currentUserId?: string;
+}
+
+// Recent events shown in the feed
+const MAX_EVENTS = 10;
+
+// Events worth surfacing across groups: new members and role changes that
+// affect the current user
+const isFeedEvent = (event: AuditEvent, currentUserId?: string) => {
+  switch (event.action) {
+    case 'member.added':
+    case 'invitation.accepted':
+    case 'join_request.approved':
+      return true;
+    case 'role.changed':
+      return !!currentUserId && event.target_id === currentUserId;
+    default:
+      return false;
+  }
+};
+
+// Pending requests per group, oldest first so the longest waiting group leads
+const groupPendingRequests = (requests: JoinRequest[]) => {
+  const byGroup = new Map<string, { groupId: string; groupName: string; count: number; oldest: string }>();
+  requests.forEach((request) => {
+    const entry = byGroup.get(request.group_id);
+    if (entry) {
+      entry.count++;
+      if (request.created_at < entry.oldest) {
+        entry.oldest = request.created_at;
+      }
+    } else {
+      byGroup.set(request.group_id, {
+        groupId: request.group_id,
+        groupName: request.group?.name || 'Group',
+        count: 1,
+        oldest: request.created_at,
+      });
+    }
+  });
+  return Array.from(byGroup.values()).sort((a, b) => a.oldest.localeCompare(b.oldest));
+};
+
+const DashboardActivityFeed: React.FC<DashboardActivityFeedProps> = ({ groups, currentUserId }) => {
+  const activityQuery = useMyActivity();
+  const reviewsQuery = usePendingReviews(groups);
+  const loading = activityQuery.isLoading || reviewsQuery.isLoading;
+
+  useQueryError(activityQuery.error || reviewsQuery.error, (error) => {
+    console.error('Failed to load activity:', error);
+    toast.error(error.userMessage || 'Failed to load activity');
+  });
+
+  const actionItems = groupPendingRequests(reviewsQuery.data?.items || []);
+  const uncheckedGroups = reviewsQuery.data?.failedGroups || [];
+  const events = (activityQuery.data || [])
+    .filter((event) => isFeedEvent(event, currentUserId))
+    .slice(0, MAX_EVENTS);
+
+  return (
+    <div className="bg-white shadow rounded-lg mt-8">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-medium text-gray-900">Recent Activity</h2>
+      </div>
+      <div className="px-6 py-4">
+        {uncheckedGroups.length > 0 && (
+          <p className="mb-3 text-sm text-red-600">
+            Join requests could not be checked for {uncheckedGroups.map((g) => g.name).join(', ')}.
+          </p>
+        )}
+        {loading ? (
+          <LoadingSpinner size="medium" className="py-6" />
+        ) : actionItems.length === 0 && events.length === 0 ? (
+          <div className="text-center py-6">
+            <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900">No recent activity</h3>
+            <p className="mt-1 text-sm text-gray-500">New members and role changes in your groups will show up here.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {actionItems.map((item) => (
+              <li key={`review-${item.groupId}`} className="py-3 flex items-center justify-between">
+                <div className="flex items-start">
+                  <BellAlertIcon className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  <div className="ml-3">
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">{item.count}</span> pending join request{item.count === 1 ? '' : 's'} in{' '}
+                      <span className="font-medium">{item.groupName}</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Needs your action • oldest {formatDistanceToNow(new Date(item.oldest), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <Link
+                  to={`/detail/${item.groupId}?tab=requests`}
+                  className="ml-3 text-primary-600 hover:text-primary-500 text-sm font-medium"
+                >
+                  Review
+                </Link>
+              </li>
+            ))}
+            {events.map((event) => (
+              <li key={event.id} className="py-3 flex items-start">
+                <ClockIcon className="h-5 w-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                <div className="ml-3">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-medium">
+                      {event.actor_id === currentUserId ? 'You' : event.actor_email || event.actor_id}
+                    </span>{' '}
+                    {describeAuditEvent(event, (userId) => userId, currentUserId)}
+                    {event.group_name && (
+                      <>
+                        {' '}in{' '}
+                        <Link to={`/detail/${event.group_id}`} className="font-medium hover:text-primary-600">
+                          {event.group_name}
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardActivityFeed;
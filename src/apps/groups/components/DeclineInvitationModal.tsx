@@ -0,0 +1,145 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { groupsAPI } from '../../../shared/utils/api';
+import { invalidateInvitationResponse } from '../invitations';
+import toast from 'react-hot-toast';
+
+interface DeclineInvitationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  afterLeave?: () => void;
+  onSuccess: () => void;
+  token: string;
+  groupName?: string;
+}
+
+interface FormData {
+  reason: string;
+}
+
+const DeclineInvitationModal: React.FC<DeclineInvitationModalProps> = ({
+  isOpen,
+  onClose,
+  afterLeave,
+  onSuccess,
+  token,
+  groupName,
+}) => {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { isSubmitting },
+  } = useForm<FormData>({
+    defaultValues: {
+      reason: '',
+    },
+  });
+
+  const onSubmit = async (data: FormData) => {
+    try {
+      await groupsAPI.declineInvitation(token, {
+        reason: data.reason.trim() || undefined,
+      });
+      reset();
+      toast.success('Invitation declined');
+      invalidateInvitationResponse(false);
+      onSuccess();
+    } catch (error: any) {
+      console.error('Failed to decline invitation:', error);
+      toast.error(error.userMessage || 'Failed to decline invitation');
+    }
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  return (
+    <Transition.Root show={isOpen} afterLeave={afterLeave}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={handleClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Decline Invitation
+                </Dialog.Title>
+                <p className="mt-2 text-sm text-gray-500">
+                  {groupName
+                    ? <>You won't be added to <strong>{groupName}</strong>. The group's managers will see that you declined.</>
+                    : "You won't be added to the group. The group's managers will see that you declined."}
+                </p>
+                <form onSubmit={handleSubmit(onSubmit)} className="mt-4 space-y-4">
+                  <div>
+                    <label htmlFor="decline-reason" className="form-label">
+                      Reason (optional)
+                    </label>
+                    <textarea
+                      id="decline-reason"
+                      rows={3}
+                      {...register('reason', { maxLength: 500 })}
+                      className="form-input"
+                      placeholder="Let the group know why you're declining"
+                    />
+                  </div>
+
+                  <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="inline-flex w-full justify-center rounded-md bg-red-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 sm:col-start-2 disabled:opacity-50"
+                    >
+                      {isSubmitting ? 'Declining...' : 'Decline Invitation'}
+                    </button>
+                    <button
+                      type="button"
+                      className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+                      onClick={handleClose}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default DeclineInvitationModal;
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { AuditEventCategory } from '../../../shared/utils/api';
+import { useGroupAuditEvents, fetchAllAuditEvents } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import { downloadExport, ExportFormat } from '../../../shared/utils/export';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import ExportMenu from '../../../shared/components/ExportMenu';
+import { useActivityFilters, toAuditEventFilters, AUDIT_EVENT_CATEGORIES } from '../hooks/useActivityFilters';
+import { categoryLabels, describeAuditEvent, getCategoryBadgeClass } from '../auditEvents';
+import { auditEventExportColumns, exportFilename } from '../exports';
+import toast from 'react-hot-toast';
+
+interface GroupActivityLogProps {
+  groupId: string;
+  groupName: string;
+  // Members to offer in the "Performed by" filter
+  actors: { id: string; label: string }[];
+  getUserLabel: (userId: string) => string;
+}
+
+// Audit trail for the Activity tab. Filtering and paging are done by the
+// server; exports fetch every page matching the current filters.
+const GroupActivityLog: React.FC<GroupActivityLogProps> = ({ groupId, groupName, actors, getUserLabel }) => {
+  const { filters, updateFilters, clearFilters, isFiltered } = useActivityFilters();
+  const apiFilters = toAuditEventFilters(filters);
+  const eventsQuery = useGroupAuditEvents(groupId, apiFilters);
+  const events = eventsQuery.items;
+  const [exporting, setExporting] = useState(false);
+
+  useQueryError(eventsQuery.error, (error) => {
+    console.error('Failed to load activity:', error);
+    toast.error(error.userMessage || 'Failed to load activity');
+  });
+
+  const toggleCategory = (category: AuditEventCategory) => {
+    const categories = filters.categories.includes(category)
+      ? filters.categories.filter((c) => c !== category)
+      : [...filters.categories, category];
+    updateFilters({ categories });
+  };
+
+  const handleLoadMore = async () => {
+    try {
+      await eventsQuery.loadMore();
+    } catch (error: any) {
+      console.error('Failed to load activity:', error);
+      toast.error(error.userMessage || 'Failed to load activity');
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+      const allEvents = eventsQuery.hasMore ? await fetchAllAuditEvents(groupId, apiFilters) : events;
+      downloadExport(format, exportFilename(groupName, 'activity'), allEvents, auditEventExportColumns);
+    } catch (error: any) {
+      console.error('Failed to export activity:', error);
+      toast.error(error.userMessage || 'Failed to export activity');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const getActorLabel = (actorId: string, actorEmail?: string) => actorEmail || getUserLabel(actorId);
+
+  return (
+    <div>
+      <div className="mb-4 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="activity-from" className="text-sm text-gray-500 whitespace-nowrap">
+              From
+            </label>
+            <input
+              id="activity-from"
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className="form-input"
+            />
+            <label htmlFor="activity-to" className="text-sm text-gray-500 whitespace-nowrap">
+              To
+            </label>
+            <input
+              id="activity-to"
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className="form-input"
+            />
+          </div>
+          <div className="flex flex-1 items-center gap-2">
+            <label htmlFor="activity-actor" className="text-sm text-gray-500 whitespace-nowrap">
+              Performed by
+            </label>
+            <select
+              id="activity-actor"
+              value={filters.actorId}
+              onChange={(e) => updateFilters({ actorId: e.target.value })}
+              className="form-input"
+            >
+              <option value="">Anyone</option>
+              {actors.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <ExportMenu onExport={handleExport} disabled={exporting || events.length === 0} />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {AUDIT_EVENT_CATEGORIES.map((category) => {
+            const selected = filters.categories.includes(category);
+            return (
+              <button
+                key={category}
+                type="button"
+                onClick={() => toggleCategory(category)}
+                aria-pressed={selected}
+                className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                  selected
+                    ? 'bg-primary-100 text-primary-800 border-primary-300'
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {categoryLabels[category]}
+              </button>
+            );
+          })}
+          {isFiltered && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="text-sm text-primary-600 hover:text-primary-500 ml-2"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {eventsQuery.isLoading ? (
+        <LoadingSpinner size="medium" className="py-6" />
+      ) : events.length === 0 ? (
+        <div className="text-center py-6">
+          <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">
+            {isFiltered ? 'No matching activity' : 'No activity yet'}
+          </h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {isFiltered
+              ? 'Try a different date range or clear the filters.'
+              : 'Membership, role, invitation and settings changes will be recorded here.'}
+          </p>
+        </div>
+      ) : (
+        <ul className="relative border-l border-gray-200 ml-2" aria-label="Group activity">
+          {events.map((event) => (
+            <li key={event.id} className="mb-4 ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+              <div className="flex flex-wrap items-center gap-2">
+                <p className="text-sm text-gray-900">
+                  <span className="font-medium">{getActorLabel(event.actor_id, event.actor_email)}</span>{' '}
+                  {describeAuditEvent(event, getUserLabel)}
+                </p>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getCategoryBadgeClass(event.category)}`}>
+                  {categoryLabels[event.category] || event.category}
+                </span>
+              </div>
+              <time dateTime={event.created_at} className="text-xs text-gray-500">
+                {format(new Date(event.created_at), 'MMM d, yyyy h:mm a')}
+              </time>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {eventsQuery.hasMore && (
+        <div className="mt-4 text-center">
+          <p className="text-sm text-gray-500 mb-2">
+            {eventsQuery.total !== undefined
+              ? `Showing ${events.length} of ${eventsQuery.total} events`
+              : `Showing ${events.length} events`}
+          </p>
+          <button
+            onClick={handleLoadMore}
+            disabled={eventsQuery.isLoadingMore}
+            className="btn-secondary text-sm disabled:opacity-50"
+          >
+            {eventsQuery.isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupActivityLog;
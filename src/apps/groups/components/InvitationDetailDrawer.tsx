@@ -0,0 +1,113 @@
+import React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { GroupInvitation } from '../../../shared/utils/api';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
+import { effectiveStatus } from '../invitations';
+
+interface InvitationDetailDrawerProps {
+  invitation: GroupInvitation | null;
+  onClose: () => void;
+  // Display name for a user id, e.g. the member's email
+  getUserLabel: (userId: string) => string;
+  getStatusBadgeClass: (status: string) => string;
+}
+
+const formatDate = (value?: string) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : undefined);
+
+// Slide-over with everything recorded for a single invitation
+const InvitationDetailDrawer: React.FC<InvitationDetailDrawerProps> = ({
+  invitation: selected,
+  onClose,
+  getUserLabel,
+  getStatusBadgeClass,
+}) => {
+  // Keep showing the last invitation while the drawer slides out
+  const [invitation, clearClosing] = useLingeringValue(selected);
+
+  const status = invitation ? effectiveStatus(invitation) : undefined;
+  const details: { label: string; value?: string }[] = invitation
+    ? [
+        { label: 'Role', value: invitation.role },
+        { label: 'Invited', value: formatDate(invitation.created_at) },
+        { label: 'Invited by', value: getUserLabel(invitation.invited_by) },
+        { label: status === 'expired' ? 'Expired' : 'Expires', value: formatDate(invitation.expires_at) },
+        { label: 'Accepted', value: formatDate(invitation.accepted_at) },
+        { label: 'Accepted by', value: invitation.accepted_by && getUserLabel(invitation.accepted_by) },
+        { label: 'Declined', value: formatDate(invitation.declined_at) },
+        { label: 'Decline reason', value: invitation.decline_reason },
+        { label: 'Message', value: invitation.metadata?.message },
+        { label: 'Invitation ID', value: invitation.id },
+      ]
+    : [];
+
+  return (
+    <Transition.Root show={!!selected} afterLeave={clearClosing}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-in-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in-out duration-300"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-hidden">
+          <div className="pointer-events-none fixed inset-y-0 right-0 flex max-w-full pl-10">
+            <Transition.Child
+              enter="transform transition ease-in-out duration-300"
+              enterFrom="translate-x-full"
+              enterTo="translate-x-0"
+              leave="transform transition ease-in-out duration-300"
+              leaveFrom="translate-x-0"
+              leaveTo="translate-x-full"
+            >
+              <Dialog.Panel className="pointer-events-auto h-full w-screen max-w-md overflow-y-auto bg-white shadow-xl">
+                <div className="px-4 py-6 sm:px-6 border-b border-gray-200">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <Dialog.Title className="text-lg font-medium text-gray-900 truncate">
+                        {invitation?.email}
+                      </Dialog.Title>
+                      {status && (
+                        <span className={`mt-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(status)}`}>
+                          {status}
+                        </span>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      className="ml-3 rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      onClick={onClose}
+                    >
+                      <span className="sr-only">Close</span>
+                      <XMarkIcon className="h-6 w-6" />
+                    </button>
+                  </div>
+                </div>
+                <dl className="divide-y divide-gray-200 px-4 sm:px-6">
+                  {details
+                    .filter(({ value }) => value)
+                    .map(({ label, value }) => (
+                      <div key={label} className="py-3 sm:grid sm:grid-cols-3 sm:gap-4">
+                        <dt className="text-sm font-medium text-gray-500">{label}</dt>
+                        <dd className="mt-1 text-sm text-gray-900 sm:col-span-2 sm:mt-0 break-words whitespace-pre-line">
+                          {value}
+                        </dd>
+                      </div>
+                    ))}
+                </dl>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default InvitationDetailDrawer;
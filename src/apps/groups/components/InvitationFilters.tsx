@@ -0,0 +1,131 @@
+import React from 'react';
+import {
+  InvitationFilters as Filters,
+  InvitationStatus,
+  INVITATION_STATUSES,
+} from '../hooks/useInvitationFilters';
+
+interface InvitationFiltersProps {
+  filters: Filters;
+  onChange: (patch: Partial<Filters>) => void;
+  onClear: () => void;
+  isFiltered: boolean;
+  // User ids of everyone who sent an invitation, with display labels
+  inviters: { id: string; label: string }[];
+  shownCount: number;
+  totalCount: number;
+  actions?: React.ReactNode;
+}
+
+const statusLabels: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+const InvitationFilters: React.FC<InvitationFiltersProps> = ({
+  filters,
+  onChange,
+  onClear,
+  isFiltered,
+  inviters,
+  shownCount,
+  totalCount,
+  actions,
+}) => {
+  const toggleStatus = (status: InvitationStatus) => {
+    const statuses = filters.statuses.includes(status)
+      ? filters.statuses.filter((s) => s !== status)
+      : [...filters.statuses, status];
+    onChange({ statuses });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2">
+          <label htmlFor="invitation-from" className="text-sm text-gray-500 whitespace-nowrap">
+            From
+          </label>
+          <input
+            id="invitation-from"
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            className="form-input"
+          />
+          <label htmlFor="invitation-to" className="text-sm text-gray-500 whitespace-nowrap">
+            To
+          </label>
+          <input
+            id="invitation-to"
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            className="form-input"
+          />
+        </div>
+        <div className="flex flex-1 items-center gap-2">
+          <label htmlFor="invitation-inviter" className="text-sm text-gray-500 whitespace-nowrap">
+            Invited by
+          </label>
+          <select
+            id="invitation-inviter"
+            value={filters.invitedBy}
+            onChange={(e) => onChange({ invitedBy: e.target.value })}
+            className="form-input"
+          >
+            <option value="">Anyone</option>
+            {inviters.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {actions}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {INVITATION_STATUSES.map((status) => {
+          const selected = filters.statuses.includes(status);
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => toggleStatus(status)}
+              aria-pressed={selected}
+              className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                selected
+                  ? 'bg-primary-100 text-primary-800 border-primary-300'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {statusLabels[status]}
+            </button>
+          );
+        })}
+        {isFiltered && (
+          <>
+            <span className="text-sm text-gray-500 ml-2">
+              Showing {shownCount} of {totalCount}
+            </span>
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InvitationFilters;
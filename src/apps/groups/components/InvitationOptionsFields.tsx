@@ -0,0 +1,57 @@
+import React from 'react';
+import { EXPIRY_OPTIONS, MAX_MESSAGE_LENGTH, expiryLabel } from '../invitations';
+
+interface InvitationOptionsFieldsProps {
+  expiresInDays: number;
+  message: string;
+  onExpiresInDaysChange: (days: number) => void;
+  onMessageChange: (message: string) => void;
+}
+
+// Expiry period and personal message, shared by single and bulk invites
+const InvitationOptionsFields: React.FC<InvitationOptionsFieldsProps> = ({
+  expiresInDays,
+  message,
+  onExpiresInDaysChange,
+  onMessageChange,
+}) => (
+  <>
+    <div>
+      <label htmlFor="invitation-expiry" className="form-label">
+        Expires In
+      </label>
+      <select
+        id="invitation-expiry"
+        value={expiresInDays}
+        onChange={(e) => onExpiresInDaysChange(Number(e.target.value))}
+        className="form-input"
+      >
+        {EXPIRY_OPTIONS.map((days) => (
+          <option key={days} value={days}>
+            {expiryLabel(days)}
+          </option>
+        ))}
+      </select>
+    </div>
+
+    <div>
+      <label htmlFor="invitation-message" className="form-label">
+        Personal Message (optional)
+      </label>
+      <textarea
+        id="invitation-message"
+        rows={3}
+        value={message}
+        maxLength={MAX_MESSAGE_LENGTH}
+        onChange={(e) => onMessageChange(e.target.value)}
+        className="form-input"
+        placeholder="Add a note to include with the invitation"
+      />
+      <p className="mt-1 text-sm text-gray-500">
+        {message.length}/{MAX_MESSAGE_LENGTH} characters. Shown to the recipient when they open the invitation.
+      </p>
+    </div>
+  </>
+);
+
+export default InvitationOptionsFields;
@@ -1,40 +1,55 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { groupsAPI } from '../../../shared/utils/api';
+import { BulkResult } from '../../../shared/components/BulkResultsModal';
+import BulkInviteForm from './BulkInviteForm';
+import InvitationOptionsFields from './InvitationOptionsFields';
+import { DEFAULT_EXPIRY_DAYS, invitationData } from '../invitations';
 import toast from 'react-hot-toast';
 
 interface InviteMemberModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  // Called with the per-address report once a bulk invite has run
+  onBulkComplete: (results: BulkResult[]) => void;
   groupId: string;
+  // Whether the current user may invite administrators
+  canAdmin: boolean;
 }
 
 interface FormData {
   email: string;
   role: 'member' | 'manager' | 'administrator';
+  expiresInDays: number;
+  message: string;
 }
 
-const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose, onSuccess, groupId }) => {
+const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose, onSuccess, onBulkComplete, groupId, canAdmin }) => {
+  const [mode, setMode] = useState<'single' | 'bulk'>('single');
   const {
     register,
     handleSubmit,
     reset,
+    watch,
+    setValue,
     formState: { errors, isSubmitting },
   } = useForm<FormData>({
     defaultValues: {
       role: 'member',
+      expiresInDays: DEFAULT_EXPIRY_DAYS,
+      message: '',
     },
   });
 
   const onSubmit = async (data: FormData) => {
     try {
-      await groupsAPI.createInvitation(groupId, {
-        email: data.email,
-        role: data.role,
-      });
+      await groupsAPI.createInvitation(
+        groupId,
+        invitationData(data.email, data.role, data.expiresInDays, data.message)
+      );
       reset();
       toast.success('Invitation sent successfully!');
       onSuccess();
@@ -46,9 +61,15 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
 
   const handleClose = () => {
     reset();
+    setMode('single');
     onClose();
   };
 
+  const handleBulkComplete = (results: BulkResult[]) => {
+    setMode('single');
+    onBulkComplete(results);
+  };
+
   return (
     <Transition.Root show={isOpen}>
       <Dialog as="div" className="relative z-50" onClose={handleClose}>
@@ -73,7 +94,7 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
               leaveFrom="opacity-100 translate-y-0 sm:scale-100"
               leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
             >
-              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+              <Dialog.Panel className={`relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:p-6 ${mode === 'bulk' ? 'sm:max-w-2xl' : 'sm:max-w-lg'}`}>
                 <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
                   <button
                     type="button"
@@ -88,9 +109,28 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
                 <div className="sm:flex sm:items-start">
                   <div className="mt-3 text-center sm:ml-4 sm:mt-0 sm:text-left w-full">
                     <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
-                      Invite Member
+                      Invite Members
                     </Dialog.Title>
+                    <div className="mt-4 flex space-x-4 border-b border-gray-200">
+                      {(['single', 'bulk'] as const).map((value) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setMode(value)}
+                          className={`pb-2 text-sm font-medium border-b-2 ${
+                            mode === value
+                              ? 'border-primary-500 text-primary-600'
+                              : 'border-transparent text-gray-500 hover:text-gray-700'
+                          }`}
+                        >
+                          {value === 'single' ? 'Single' : 'Bulk'}
+                        </button>
+                      ))}
+                    </div>
                     <div className="mt-4">
+                      {mode === 'bulk' ? (
+                        <BulkInviteForm groupId={groupId} canAdmin={canAdmin} onCancel={handleClose} onComplete={handleBulkComplete} />
+                      ) : (
                       <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
                         <div>
                           <label htmlFor="email" className="form-label">
@@ -123,7 +163,7 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
                           >
                             <option value="member">Member</option>
                             <option value="manager">Manager</option>
-                            <option value="administrator">Administrator</option>
+                            {canAdmin && <option value="administrator">Administrator</option>}
                           </select>
                           {errors.role && (
                             <p className="mt-1 text-sm text-red-600">{errors.role.message}</p>
@@ -133,6 +173,13 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
                           </p>
                         </div>
 
+                        <InvitationOptionsFields
+                          expiresInDays={watch('expiresInDays')}
+                          message={watch('message')}
+                          onExpiresInDaysChange={(days) => setValue('expiresInDays', days)}
+                          onMessageChange={(message) => setValue('message', message)}
+                        />
+
                         <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
                           <button
                             type="submit"
@@ -150,6 +197,7 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({ isOpen, onClose,
                           </button>
                         </div>
                       </form>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { LinkIcon, PlusIcon, QrCodeIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { joinRequestsAPI, JoinLink } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { scheduleUndoable } from '../../../shared/utils/undoableActions';
+import { queryKeys, useGroupJoinLinks } from '../../../shared/hooks/useGroupsQueries';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import ShareJoinLinkModal from './ShareJoinLinkModal';
+import { MemberRole } from '../hooks/useMemberFilters';
+import { EXPIRY_OPTIONS, DEFAULT_EXPIRY_DAYS, expiryLabel } from '../invitations';
+import toast from 'react-hot-toast';
+
+interface JoinLinksPanelProps {
+  groupId: string;
+  groupName: string;
+  canAdmin: boolean;
+  // UI base URL the /join/:token route is served under
+  linkBase: string;
+}
+
+const getStatusBadgeClass = (status: JoinLink['status']) => {
+  switch (status) {
+    case 'active':
+      return 'bg-green-100 text-green-800';
+    case 'expired':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+// Tokenized join links for managers. Unlike the public /join-group link these
+// work for private groups and can expire, be limited or be revoked.
+const JoinLinksPanel: React.FC<JoinLinksPanelProps> = ({ groupId, groupName, canAdmin, linkBase }) => {
+  const linksQuery = useGroupJoinLinks(groupId);
+  const links = linksQuery.data || [];
+  const [showForm, setShowForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [defaultRole, setDefaultRole] = useState<MemberRole>('member');
+  const [expiresInDays, setExpiresInDays] = useState<number | ''>(DEFAULT_EXPIRY_DAYS);
+  const [maxUses, setMaxUses] = useState('');
+  const [sharingLink, setSharingLink] = useState<JoinLink | null>(null);
+  // Keep the last shared link in the modal while it fades out
+  const [sharedLink, clearSharedLink] = useLingeringValue(sharingLink);
+
+  useQueryError(linksQuery.error, (error) => {
+    console.error('Failed to load join links:', error);
+    toast.error(error.userMessage || 'Failed to load join links');
+  });
+
+  const getLinkUrl = (link: JoinLink) => `${linkBase}/join/${link.token}`;
+
+  const copyLink = (link: JoinLink) => {
+    navigator.clipboard.writeText(getLinkUrl(link)).then(() => {
+      toast.success('Join link copied to clipboard!');
+    }).catch(() => {
+      toast.error('Failed to copy link');
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      const response = await joinRequestsAPI.createJoinLink(groupId, {
+        default_role: defaultRole,
+        expires_in_days: expiresInDays || undefined,
+        max_uses: maxUses ? Number(maxUses) : undefined,
+      });
+      queryCache.setData<JoinLink[]>(queryKeys.joinLinks(groupId), (current = []) => [response.data, ...current]);
+      setShowForm(false);
+      setMaxUses('');
+      toast.success('Join link created');
+    } catch (error: any) {
+      console.error('Failed to create join link:', error);
+      toast.error(error.userMessage || 'Failed to create join link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Revocations are held back behind an undo toast like invitation revokes
+  const handleRevoke = (link: JoinLink) => {
+    const linksKey = queryKeys.joinLinks(groupId);
+    const setCachedLink = (next: JoinLink) => {
+      queryCache.setData<JoinLink[]>(linksKey, (current = []) => current.map((l) => (l.id === link.id ? next : l)));
+    };
+    setCachedLink({ ...link, status: 'revoked' });
+
+    scheduleUndoable({
+      id: `revoke-join-link:${groupId}:${link.id}`,
+      message: 'Revoked join link',
+      commit: () => joinRequestsAPI.revokeJoinLink(groupId, link.id),
+      queryKeys: [linksKey],
+      onUndo: () => setCachedLink(link),
+      onCommitted: () => queryCache.invalidate(linksKey),
+      onError: (error: any) => {
+        console.error('Failed to revoke join link:', error);
+        toast.error(error.userMessage || 'Failed to revoke join link');
+      },
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg mb-6">
+      <div className="px-6 py-4">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900">Join Links</h3>
+          {!showForm && (
+            <button onClick={() => setShowForm(true)} className="btn-secondary text-sm inline-flex items-center">
+              <PlusIcon className="mr-1 h-4 w-4" />
+              New Link
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="mb-4 p-4 border border-gray-200 rounded-lg grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="join-link-role" className="form-label">
+                Default Role
+              </label>
+              <select
+                id="join-link-role"
+                value={defaultRole}
+                onChange={(e) => setDefaultRole(e.target.value as MemberRole)}
+                className="form-input"
+              >
+                <option value="member">Member</option>
+                <option value="manager">Manager</option>
+                {canAdmin && <option value="administrator">Administrator</option>}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="join-link-expiry" className="form-label">
+                Expires In
+              </label>
+              <select
+                id="join-link-expiry"
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : '')}
+                className="form-input"
+              >
+                {EXPIRY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {expiryLabel(days)}
+                  </option>
+                ))}
+                <option value="">Never</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="join-link-max-uses" className="form-label">
+                Usage Limit
+              </label>
+              <input
+                id="join-link-max-uses"
+                type="number"
+                min={1}
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+                className="form-input"
+                placeholder="Unlimited"
+              />
+            </div>
+            <div className="sm:col-span-3 flex justify-end space-x-2">
+              <button type="button" onClick={() => setShowForm(false)} className="btn-secondary text-sm">
+                Cancel
+              </button>
+              <button type="submit" disabled={creating} className="btn-primary text-sm disabled:opacity-50">
+                {creating ? 'Creating...' : 'Create Link'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {linksQuery.isLoading ? (
+          <LoadingSpinner size="medium" className="py-4" />
+        ) : links.length === 0 ? (
+          <div className="text-center py-4">
+            <LinkIcon className="mx-auto h-8 w-8 text-gray-400" />
+            <p className="mt-2 text-sm text-gray-500">
+              Create a link to let people request to join, even when the group is private.
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {links.map((link) => (
+              <li key={link.id} className={`p-4 ${link.status !== 'active' ? 'opacity-60' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 min-w-0 truncate text-sm bg-gray-50 px-3 py-2 border border-gray-200 rounded text-gray-800">
+                    {getLinkUrl(link)}
+                  </code>
+                  {link.status === 'active' && (
+                    <>
+                      <button onClick={() => copyLink(link)} className="btn-secondary text-sm">
+                        Copy
+                      </button>
+                      <button
+                        onClick={() => setSharingLink(link)}
+                        className="btn-secondary text-sm inline-flex items-center"
+                        title="QR code and badge"
+                      >
+                        <QrCodeIcon className="h-4 w-4" />
+                        <span className="sr-only">QR code and badge</span>
+                      </button>
+                      <button onClick={() => handleRevoke(link)} className="text-red-600 hover:text-red-500 text-sm">
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-500">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(link.status)}`}>
+                    {link.status}
+                  </span>
+                  <span>Joins as {link.default_role}</span>
+                  <span>
+                    Used {link.use_count}{link.max_uses ? ` / ${link.max_uses}` : ''}
+                  </span>
+                  <span>
+                    {link.request_count} request{link.request_count === 1 ? '' : 's'}
+                  </span>
+                  <span>
+                    {link.expires_at
+                      ? `${link.status === 'expired' ? 'Expired' : 'Expires'} ${format(new Date(link.expires_at), 'MMM d, yyyy')}`
+                      : 'Never expires'}
+                  </span>
+                  <span>Created {format(new Date(link.created_at), 'MMM d, yyyy')}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <ShareJoinLinkModal
+        isOpen={!!sharingLink}
+        onClose={() => setSharingLink(null)}
+        afterLeave={clearSharedLink}
+        url={sharedLink ? getLinkUrl(sharedLink) : ''}
+        groupName={groupName}
+      />
+    </div>
+  );
+};
+
+export default JoinLinksPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ReviewDecision } from '../joinRequests';
+
+interface JoinRequestBulkActionsProps {
+  selectedCount: number;
+  // Set while a bulk operation is running
+  progress: { completed: number; total: number } | null;
+  onReview: (decision: ReviewDecision) => void;
+  onClear: () => void;
+}
+
+const JoinRequestBulkActions: React.FC<JoinRequestBulkActionsProps> = ({
+  selectedCount,
+  progress,
+  onReview,
+  onClear,
+}) => (
+  <div className="mb-4 flex flex-wrap items-center justify-between gap-3 p-3 bg-primary-50 border border-primary-200 rounded-lg">
+    <div className="text-sm font-medium text-primary-900">
+      {progress
+        ? `Processing ${progress.completed} of ${progress.total}...`
+        : `${selectedCount} selected`}
+    </div>
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={() => onReview('approved')}
+        disabled={!!progress}
+        className="btn-success text-sm inline-flex items-center disabled:opacity-50"
+      >
+        <CheckIcon className="mr-1 h-4 w-4" />
+        Approve
+      </button>
+      <button
+        onClick={() => onReview('denied')}
+        disabled={!!progress}
+        className="btn-danger text-sm inline-flex items-center disabled:opacity-50"
+      >
+        <XMarkIcon className="mr-1 h-4 w-4" />
+        Deny
+      </button>
+      <button
+        onClick={onClear}
+        disabled={!!progress}
+        className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+      >
+        Clear
+      </button>
+    </div>
+  </div>
+);
+
+export default JoinRequestBulkActions;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
+import { MemberRole } from '../hooks/useMemberFilters';
+import { ReviewDecision } from '../joinRequests';
+
+interface JoinRequestBulkReviewModalProps {
+  // The decision being confirmed; the modal is closed while null
+  decision: ReviewDecision | null;
+  count: number;
+  canAdmin: boolean;
+  onClose: () => void;
+  onConfirm: (options: { role?: MemberRole; comment?: string }) => void;
+}
+
+// Confirms a bulk approve or deny, with the role to grant and a comment
+// sent with every request
+const JoinRequestBulkReviewModal: React.FC<JoinRequestBulkReviewModalProps> = ({
+  decision: selected,
+  count,
+  canAdmin,
+  onClose,
+  onConfirm,
+}) => {
+  // Keep the last decision's wording while the dialog fades out
+  const [decision, clearClosing] = useLingeringValue(selected);
+  const approving = decision === 'approved';
+
+  const [role, setRole] = useState<MemberRole>('member');
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    if (selected) {
+      setRole('member');
+      setComment('');
+    }
+  }, [selected]);
+
+  const handleConfirm = () => {
+    onConfirm(approving ? { role, comment } : { comment });
+  };
+
+  return (
+    <Transition.Root show={!!selected} afterLeave={clearClosing}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  {approving ? 'Approve' : 'Deny'} {count} Join Request{count === 1 ? '' : 's'}
+                </Dialog.Title>
+
+                <div className="mt-4 space-y-4">
+                  {approving && (
+                    <div>
+                      <label htmlFor="bulk-review-role" className="form-label">
+                        Add as
+                      </label>
+                      <select
+                        id="bulk-review-role"
+                        value={role}
+                        onChange={(e) => setRole(e.target.value as MemberRole)}
+                        className="form-input"
+                      >
+                        <option value="member">Member</option>
+                        <option value="manager">Manager</option>
+                        {canAdmin && <option value="administrator">Administrator</option>}
+                      </select>
+                    </div>
+                  )}
+                  <div>
+                    <label htmlFor="bulk-review-comment" className="form-label">
+                      Comment (optional)
+                    </label>
+                    <textarea
+                      id="bulk-review-comment"
+                      rows={3}
+                      value={comment}
+                      maxLength={500}
+                      onChange={(e) => setComment(e.target.value)}
+                      className="form-input"
+                      placeholder="Sent to every requester with your decision"
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+                  <button
+                    type="button"
+                    onClick={handleConfirm}
+                    className={`${approving ? 'btn-success' : 'btn-danger'} w-full sm:col-start-2`}
+                  >
+                    {approving ? 'Approve' : 'Deny'} {count}
+                  </button>
+                  <button
+                    type="button"
+                    className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+                    onClick={onClose}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default JoinRequestBulkReviewModal;
@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  JoinRequestFilters as Filters,
+  JoinRequestStatus,
+  JOIN_REQUEST_STATUSES,
+} from '../hooks/useJoinRequestFilters';
+
+interface JoinRequestFiltersProps {
+  filters: Filters;
+  onChange: (patch: Partial<Filters>) => void;
+  onClear: () => void;
+  isFiltered: boolean;
+  // User ids of everyone who reviewed a request, with display labels
+  reviewers: { id: string; label: string }[];
+  shownCount: number;
+  totalCount: number;
+}
+
+const statusLabels: Record<JoinRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  denied: 'Denied',
+  expired: 'Expired',
+};
+
+const JoinRequestFilters: React.FC<JoinRequestFiltersProps> = ({
+  filters,
+  onChange,
+  onClear,
+  isFiltered,
+  reviewers,
+  shownCount,
+  totalCount,
+}) => {
+  const toggleStatus = (status: JoinRequestStatus) => {
+    const statuses = filters.statuses.includes(status)
+      ? filters.statuses.filter((s) => s !== status)
+      : [...filters.statuses, status];
+    onChange({ statuses });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex flex-1 flex-wrap items-center gap-2">
+        {JOIN_REQUEST_STATUSES.map((status) => {
+          const selected = filters.statuses.includes(status);
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => toggleStatus(status)}
+              aria-pressed={selected}
+              className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                selected
+                  ? 'bg-primary-100 text-primary-800 border-primary-300'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {statusLabels[status]}
+            </button>
+          );
+        })}
+        {isFiltered && (
+          <>
+            <span className="text-sm text-gray-500 ml-2">
+              Showing {shownCount} of {totalCount}
+            </span>
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="request-reviewer" className="text-sm text-gray-500 whitespace-nowrap">
+          Reviewed by
+        </label>
+        <select
+          id="request-reviewer"
+          value={filters.reviewedBy}
+          onChange={(e) => onChange({ reviewedBy: e.target.value })}
+          className="form-input"
+        >
+          <option value="">Anyone</option>
+          {reviewers.map(({ id, label }) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default JoinRequestFilters;
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { joinRequestsAPI, JoinRequest } from '../../../shared/utils/api';
+import { useGroupJoinRequestHistory } from '../../../shared/hooks/useGroupsQueries';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import { MemberRole } from '../hooks/useMemberFilters';
+import { ReviewDecision } from '../joinRequests';
+import toast from 'react-hot-toast';
+
+interface JoinRequestReviewModalProps {
+  onClose: () => void;
+  onReviewed: (decision: ReviewDecision) => void;
+  groupId: string;
+  request: JoinRequest | null;
+  canAdmin: boolean;
+}
+
+// Approve or deny a join request in one step, with the requester's earlier
+// requests to this group for context
+const JoinRequestReviewModal: React.FC<JoinRequestReviewModalProps> = ({
+  onClose,
+  onReviewed,
+  groupId,
+  request: selected,
+  canAdmin,
+}) => {
+  // Keep showing the last request while the dialog fades out
+  const [request, clearClosing] = useLingeringValue(selected);
+
+  const [role, setRole] = useState<MemberRole>('member');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState<ReviewDecision | null>(null);
+  const historyQuery = useGroupJoinRequestHistory(groupId, !!selected);
+
+  // Start each request with a blank decision
+  const selectedId = selected?.id;
+  useEffect(() => {
+    if (selectedId) {
+      setRole('member');
+      setComment('');
+    }
+  }, [selectedId]);
+
+  const history = (historyQuery.data || [])
+    .filter((r) => request && r.user_id === request.user_id && r.id !== request.id)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  const handleReview = async (decision: ReviewDecision) => {
+    if (!request) return;
+
+    try {
+      setSubmitting(decision);
+      const data = { comment: comment.trim() || undefined };
+      if (decision === 'approved') {
+        await joinRequestsAPI.approveJoinRequest(groupId, request.id, { ...data, role });
+        toast.success('Join request approved successfully');
+      } else {
+        await joinRequestsAPI.denyJoinRequest(groupId, request.id, data);
+        toast.success('Join request denied successfully');
+      }
+      onReviewed(decision);
+    } catch (error: any) {
+      console.error(`Failed to ${decision === 'approved' ? 'approve' : 'deny'} join request:`, error);
+      toast.error(error.userMessage || `Failed to ${decision === 'approved' ? 'approve' : 'deny'} join request`);
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Transition.Root show={!!selected} afterLeave={clearClosing}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                {request && (
+                  <>
+                    <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                      Review Join Request
+                    </Dialog.Title>
+                    <div className="mt-4">
+                      <div className="text-sm font-medium text-gray-900">{request.user_name || request.user_email}</div>
+                      <div className="text-sm text-gray-500">{request.user_email}</div>
+                      <div className="text-sm text-gray-500 mt-1">
+                        Requested {format(new Date(request.created_at), 'MMM d, yyyy')}
+                      </div>
+                      {request.message && (
+                        <div className="mt-2 text-sm text-gray-700 bg-gray-50 p-2 rounded whitespace-pre-line">
+                          <strong>Message:</strong> {request.message}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="mt-4">
+                      <h4 className="text-sm font-medium text-gray-700">Previous requests</h4>
+                      {historyQuery.isLoading ? (
+                        <LoadingSpinner size="small" className="mt-2" />
+                      ) : history.length === 0 ? (
+                        <p className="mt-1 text-sm text-gray-500">This is their first request to join.</p>
+                      ) : (
+                        <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+                          {history.map((previous) => (
+                            <li key={previous.id} className="px-3 py-2 text-sm">
+                              <div className="flex items-center justify-between">
+                                <span className="text-gray-500">
+                                  {format(new Date(previous.created_at), 'MMM d, yyyy')}
+                                </span>
+                                <span className="capitalize text-gray-700">{previous.status}</span>
+                              </div>
+                              {previous.reviewer_comment && (
+                                <div className="mt-1 text-gray-600">{previous.reviewer_comment}</div>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+
+                    <div className="mt-4 space-y-4">
+                      <div>
+                        <label htmlFor="review-role" className="form-label">
+                          Role if approved
+                        </label>
+                        <select
+                          id="review-role"
+                          value={role}
+                          onChange={(e) => setRole(e.target.value as MemberRole)}
+                          className="form-input"
+                        >
+                          <option value="member">Member</option>
+                          <option value="manager">Manager</option>
+                          {canAdmin && <option value="administrator">Administrator</option>}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="review-comment" className="form-label">
+                          Comment (optional)
+                        </label>
+                        <textarea
+                          id="review-comment"
+                          rows={3}
+                          value={comment}
+                          maxLength={500}
+                          onChange={(e) => setComment(e.target.value)}
+                          className="form-input"
+                          placeholder="Shown to the requester with your decision"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="mt-5 sm:mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+                      <button
+                        type="button"
+                        onClick={onClose}
+                        disabled={!!submitting}
+                        className="btn-secondary disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReview('denied')}
+                        disabled={!!submitting}
+                        className="btn-danger disabled:opacity-50"
+                      >
+                        {submitting === 'denied' ? 'Denying...' : 'Deny'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReview('approved')}
+                        disabled={!!submitting}
+                        className="btn-success disabled:opacity-50"
+                      >
+                        {submitting === 'approved' ? 'Approving...' : 'Approve'}
+                      </button>
+                    </div>
+                  </>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default JoinRequestReviewModal;
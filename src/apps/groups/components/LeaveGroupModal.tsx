@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { groupsAPI, Group } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { queryKeys, useGroup, useGroupMembers } from '../../../shared/hooks/useGroupsQueries';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import { countAdministrators } from '../administrators';
+import toast from 'react-hot-toast';
+
+interface LeaveGroupModalProps {
+  // The group being left; the modal is closed while null
+  group: Group | null;
+  currentUserId?: string;
+  onClose: () => void;
+  onLeft: (group: Group) => void;
+  // Offered instead of leaving when the user is the last administrator.
+  // Without it the blocked dialog links to the group page.
+  onTransferOwnership?: () => void;
+}
+
+// Confirms removing the current user from a group. The last administrator
+// cannot leave until someone else has been made administrator.
+const LeaveGroupModal: React.FC<LeaveGroupModalProps> = ({
+  group: selected,
+  currentUserId,
+  onClose,
+  onLeft,
+  onTransferOwnership,
+}) => {
+  // Keep the last group's details while the dialog fades out
+  const [group, clearClosing] = useLingeringValue(selected);
+  const [leaving, setLeaving] = useState(false);
+
+  // List entries may lack role_distribution, so administrators load the
+  // group and its members before the count is trusted
+  const isAdministrator = group?.membership?.role === 'administrator';
+  const checkId = selected && isAdministrator ? selected.id : undefined;
+  const detailQuery = useGroup(checkId);
+  const membersQuery = useGroupMembers(checkId);
+  const checking = !!checkId && (detailQuery.isLoading || membersQuery.isLoading);
+  const isLastAdministrator =
+    isAdministrator && !checking && countAdministrators(detailQuery.data || group || undefined, membersQuery.items, {
+      complete: !membersQuery.hasMore,
+    }) <= 1;
+
+  const handleLeave = async () => {
+    if (!group || !currentUserId) return;
+
+    try {
+      setLeaving(true);
+      await groupsAPI.removeGroupMember(group.id, currentUserId);
+      queryCache.remove(queryKeys.group(group.id));
+      queryCache.remove(queryKeys.members(group.id));
+      queryCache.invalidate(queryKeys.groupLists());
+      toast.success(`You left ${group.name}`);
+      onLeft(group);
+    } catch (error: any) {
+      console.error('Failed to leave group:', error);
+      toast.error(error.userMessage || 'Failed to leave group');
+    } finally {
+      setLeaving(false);
+    }
+  };
+
+  return (
+    <Transition.Root show={!!selected} afterLeave={clearClosing}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="flex items-center">
+                  <ExclamationTriangleIcon className="h-6 w-6 text-red-600 mr-2" />
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    Leave {group?.name}
+                  </Dialog.Title>
+                </div>
+
+                {checking ? (
+                  <LoadingSpinner size="medium" className="py-6" />
+                ) : isLastAdministrator ? (
+                  <>
+                    <p className="mt-3 text-sm text-gray-700">
+                      You are the only administrator of this group. A group must keep at least one
+                      administrator, so make another member administrator before you leave.
+                    </p>
+                    <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+                      {onTransferOwnership ? (
+                        <button type="button" onClick={onTransferOwnership} className="btn-primary w-full sm:col-start-2">
+                          Transfer Ownership
+                        </button>
+                      ) : (
+                        <Link to={`/detail/${group?.id}`} onClick={onClose} className="btn-primary w-full text-center sm:col-start-2">
+                          Open Group
+                        </Link>
+                      )}
+                      <button
+                        type="button"
+                        className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+                        onClick={onClose}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <ul className="mt-3 text-sm text-gray-700 list-disc pl-5 space-y-1">
+                      <li>You will lose access to the group and its members list.</li>
+                      {group?.membership?.role !== 'member' && (
+                        <li>Your {group?.membership?.role} rights end immediately.</li>
+                      )}
+                      <li>
+                        {group?.visibility === 'public'
+                          ? 'To come back you will need to request to join again.'
+                          : 'This group is private; you will need a new invitation to come back.'}
+                      </li>
+                    </ul>
+                    <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+                      <button
+                        type="button"
+                        onClick={handleLeave}
+                        disabled={leaving}
+                        className="inline-flex w-full justify-center rounded-md bg-red-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-red-500 sm:col-start-2 disabled:opacity-50"
+                      >
+                        {leaving ? 'Leaving...' : 'Leave Group'}
+                      </button>
+                      <button
+                        type="button"
+                        className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+                        onClick={onClose}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </>
+                )}
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default LeaveGroupModal;
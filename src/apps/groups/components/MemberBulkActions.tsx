@@ -0,0 +1,97 @@
+import React from 'react';
+import { Menu, Transition } from '@headlessui/react';
+import { ChevronDownIcon, ArrowDownTrayIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GroupMembership } from '../../../shared/utils/api';
+
+interface MemberBulkActionsProps {
+  selectedCount: number;
+  canAdmin: boolean;
+  // Set while a bulk operation is running
+  progress: { completed: number; total: number } | null;
+  onChangeRole: (role: GroupMembership['role']) => void;
+  onRemove: () => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const MemberBulkActions: React.FC<MemberBulkActionsProps> = ({
+  selectedCount,
+  canAdmin,
+  progress,
+  onChangeRole,
+  onRemove,
+  onExport,
+  onClear,
+}) => {
+  const roles: { role: GroupMembership['role']; label: string }[] = [
+    ...(canAdmin ? [{ role: 'administrator' as const, label: 'Make Administrator' }] : []),
+    { role: 'manager', label: 'Make Manager' },
+    { role: 'member', label: 'Make Member' },
+  ];
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center justify-between gap-3 p-3 bg-primary-50 border border-primary-200 rounded-lg">
+      <div className="text-sm font-medium text-primary-900">
+        {progress
+          ? `Processing ${progress.completed} of ${progress.total}...`
+          : `${selectedCount} selected`}
+      </div>
+      <div className="flex items-center space-x-2">
+        <Menu as="div" className="relative">
+          <Menu.Button disabled={!!progress} className="btn-secondary text-sm inline-flex items-center disabled:opacity-50">
+            Change Role
+            <ChevronDownIcon className="ml-1 h-4 w-4" />
+          </Menu.Button>
+          <Transition
+            enter="transition ease-out duration-100"
+            enterFrom="transform opacity-0 scale-95"
+            enterTo="transform opacity-100 scale-100"
+            leave="transition ease-in duration-75"
+            leaveFrom="transform opacity-100 scale-100"
+            leaveTo="transform opacity-0 scale-95"
+          >
+            <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+              {roles.map(({ role, label }) => (
+                <Menu.Item key={role}>
+                  {({ active }) => (
+                    <button
+                      onClick={() => onChangeRole(role)}
+                      className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                    >
+                      {label}
+                    </button>
+                  )}
+                </Menu.Item>
+              ))}
+            </Menu.Items>
+          </Transition>
+        </Menu>
+        <button
+          onClick={onExport}
+          disabled={!!progress}
+          className="btn-secondary text-sm inline-flex items-center disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+          Export
+        </button>
+        <button
+          onClick={onRemove}
+          disabled={!!progress}
+          className="btn-danger text-sm inline-flex items-center disabled:opacity-50"
+        >
+          <TrashIcon className="mr-1 h-4 w-4" />
+          Remove
+        </button>
+        <button
+          onClick={onClear}
+          disabled={!!progress}
+          className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MemberBulkActions;
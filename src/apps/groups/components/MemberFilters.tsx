@@ -0,0 +1,131 @@
+import React from 'react';
+import {
+  MagnifyingGlassIcon,
+  BarsArrowUpIcon,
+  BarsArrowDownIcon,
+} from '@heroicons/react/24/outline';
+import {
+  MemberFilters as Filters,
+  MemberRole,
+  MemberSortField,
+  MEMBER_ROLES,
+} from '../hooks/useMemberFilters';
+
+interface MemberFiltersProps {
+  filters: Filters;
+  onChange: (patch: Partial<Filters>) => void;
+  onClear: () => void;
+  isFiltered: boolean;
+  shownCount: number;
+  totalCount: number;
+  // Extra controls shown next to the sort options, e.g. an export menu
+  actions?: React.ReactNode;
+}
+
+const roleLabels: Record<MemberRole, string> = {
+  administrator: 'Administrators',
+  manager: 'Managers',
+  member: 'Members',
+};
+
+const MemberFilters: React.FC<MemberFiltersProps> = ({
+  filters,
+  onChange,
+  onClear,
+  isFiltered,
+  shownCount,
+  totalCount,
+  actions,
+}) => {
+  const toggleRole = (role: MemberRole) => {
+    const roles = filters.roles.includes(role)
+      ? filters.roles.filter((r) => r !== role)
+      : [...filters.roles, role];
+    onChange({ roles });
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="relative flex-1">
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+            <MagnifyingGlassIcon className="h-4 w-4 text-gray-400" />
+          </div>
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => onChange({ search: e.target.value })}
+            className="form-input pl-9"
+            placeholder="Search by email or user ID"
+            aria-label="Search members"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="member-sort" className="text-sm text-gray-500 whitespace-nowrap">
+            Sort by
+          </label>
+          <select
+            id="member-sort"
+            value={filters.sort}
+            onChange={(e) => onChange({ sort: e.target.value as MemberSortField })}
+            className="form-input"
+          >
+            <option value="joined">Joined date</option>
+            <option value="role">Role</option>
+            <option value="email">Email</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+            className="text-gray-400 hover:text-gray-600"
+            title={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {filters.direction === 'asc' ? (
+              <BarsArrowUpIcon className="h-5 w-5" />
+            ) : (
+              <BarsArrowDownIcon className="h-5 w-5" />
+            )}
+          </button>
+          {actions}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {MEMBER_ROLES.map((role) => {
+          const selected = filters.roles.includes(role);
+          return (
+            <button
+              key={role}
+              type="button"
+              onClick={() => toggleRole(role)}
+              aria-pressed={selected}
+              className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${
+                selected
+                  ? 'bg-primary-100 text-primary-800 border-primary-300'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {roleLabels[role]}
+            </button>
+          );
+        })}
+        {isFiltered && (
+          <>
+            <span className="text-sm text-gray-500 ml-2">
+              Showing {shownCount} of {totalCount}
+            </span>
+            <button
+              type="button"
+              onClick={onClear}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemberFilters;
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { downloadFile, downloadUrl } from '../../../shared/utils/export';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import { exportFilename } from '../exports';
+import toast from 'react-hot-toast';
+
+interface ShareJoinLinkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called once the close transition has finished
+  afterLeave?: () => void;
+  // Public /join-group link or a tokenized /join link
+  url: string;
+  groupName: string;
+}
+
+// Rendered size of the downloaded PNG, large enough for printed posters
+const PNG_WIDTH = 1024;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeMarkdown = (value: string) => value.replace(/([\\[\]()*_`])/g, '\\$1');
+
+// Inline so the badge looks the same on any page it is pasted into
+const BADGE_STYLE: React.CSSProperties = {
+  display: 'inline-block',
+  padding: '6px 12px',
+  borderRadius: '4px',
+  background: '#2563eb',
+  color: '#ffffff',
+  font: '600 14px/1.4 sans-serif',
+  textDecoration: 'none',
+};
+
+const badgeStyleAttribute = Object.entries(BADGE_STYLE)
+  .map(([property, value]) => `${property.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}:${value}`)
+  .join(';');
+
+const badgeHtml = (url: string, groupName: string) =>
+  `<a href="${escapeHtml(url)}" target="_blank" rel="noopener" style="${badgeStyleAttribute}">` +
+  `Request to join ${escapeHtml(groupName)}</a>`;
+
+const badgeMarkdown = (url: string, groupName: string) =>
+  `[**Request to join ${escapeMarkdown(groupName)}**](${url})`;
+
+// QR code and embeddable snippets for a join link. The QR code is generated
+// in the browser so the link is never sent to a third party.
+const ShareJoinLinkModal: React.FC<ShareJoinLinkModalProps> = ({ isOpen, onClose, afterLeave, url, groupName }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setSvg(null);
+    QRCode.toString(url, { type: 'svg', margin: 2, errorCorrectionLevel: 'M' })
+      .then((result) => {
+        if (!cancelled) setSvg(result);
+      })
+      .catch((error) => {
+        console.error('Failed to generate QR code:', error);
+        toast.error('Failed to generate QR code');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, url]);
+
+  const filename = exportFilename(groupName, 'join-qr');
+
+  const handleDownloadPng = async () => {
+    try {
+      downloadUrl(`${filename}.png`, await QRCode.toDataURL(url, { width: PNG_WIDTH, margin: 2 }));
+    } catch (error) {
+      console.error('Failed to generate QR code:', error);
+      toast.error('Failed to generate QR code');
+    }
+  };
+
+  const handleDownloadSvg = () => {
+    if (svg) {
+      downloadFile(`${filename}.svg`, svg, 'image/svg+xml');
+    }
+  };
+
+  const copy = (text: string, label: string) => {
+    navigator.clipboard.writeText(text).then(() => {
+      toast.success(`${label} copied to clipboard!`);
+    }).catch(() => {
+      toast.error(`Failed to copy ${label.toLowerCase()}`);
+    });
+  };
+
+  const snippets = [
+    { label: 'HTML', value: badgeHtml(url, groupName) },
+    { label: 'Markdown', value: badgeMarkdown(url, groupName) },
+  ];
+
+  return (
+    <Transition.Root show={isOpen} afterLeave={afterLeave}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  Share Join Link
+                </Dialog.Title>
+                <p className="mt-1 text-sm text-gray-500 break-all">{url}</p>
+
+                <div className="mt-4 flex flex-col items-center">
+                  <div className="h-56 w-56 flex items-center justify-center border border-gray-200 rounded-lg">
+                    {svg ? (
+                      <img
+                        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+                        alt={`QR code for ${url}`}
+                        className="h-full w-full"
+                      />
+                    ) : (
+                      <LoadingSpinner size="medium" />
+                    )}
+                  </div>
+                  <div className="mt-3 flex space-x-2">
+                    <button onClick={handleDownloadPng} className="btn-secondary text-sm inline-flex items-center">
+                      <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+                      PNG
+                    </button>
+                    <button
+                      onClick={handleDownloadSvg}
+                      disabled={!svg}
+                      className="btn-secondary text-sm inline-flex items-center disabled:opacity-50"
+                    >
+                      <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+                      SVG
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-700">Embeddable badge</h4>
+                  <div className="mt-2">
+                    <a href={url} target="_blank" rel="noopener" style={BADGE_STYLE}>
+                      Request to join {groupName}
+                    </a>
+                  </div>
+                  {snippets.map(({ label, value }) => (
+                    <div key={label} className="mt-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-gray-500">{label}</span>
+                        <button
+                          onClick={() => copy(value, `${label} snippet`)}
+                          className="text-sm text-primary-600 hover:text-primary-500"
+                        >
+                          Copy
+                        </button>
+                      </div>
+                      <textarea
+                        readOnly
+                        rows={label === 'HTML' ? 3 : 1}
+                        value={value}
+                        onFocus={(e) => e.target.select()}
+                        className="form-input mt-1 font-mono text-xs"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default ShareJoinLinkModal;
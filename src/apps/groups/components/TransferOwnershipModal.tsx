@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { groupsAPI, Group, GroupMembership } from '../../../shared/utils/api';
+import { fetchAllGroupMembers } from '../../../shared/hooks/useGroupsQueries';
+import { invalidateMembership } from '../../../shared/hooks/useMemberMutations';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import { MemberRole } from '../hooks/useMemberFilters';
+import toast from 'react-hot-toast';
+
+interface TransferOwnershipModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  // Loaded members; the full list is fetched when more pages remain
+  members: GroupMembership[];
+  hasMoreMembers: boolean;
+  currentUserId?: string;
+}
+
+type Step = 'choose' | 'role' | 'confirm';
+
+const STEPS: Step[] = ['choose', 'role', 'confirm'];
+
+const ROLE_OPTIONS: { role: MemberRole; label: string; description: string }[] = [
+  { role: 'administrator', label: 'Stay administrator', description: 'Share administration with the new administrator.' },
+  { role: 'manager', label: 'Become a manager', description: 'Keep managing members, invitations and join requests.' },
+  { role: 'member', label: 'Become a member', description: 'Give up all management rights in this group.' },
+];
+
+// Guided hand-over of administration: promote another member first, then
+// optionally step down. The order means the group never has zero
+// administrators, even if the second step fails.
+const TransferOwnershipModal: React.FC<TransferOwnershipModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  members: loadedMembers,
+  hasMoreMembers,
+  currentUserId,
+}) => {
+  const [step, setStep] = useState<Step>('choose');
+  // Every member, when the loaded pages are not all of them
+  const [allMembers, setAllMembers] = useState<GroupMembership[] | null>(null);
+  const [loadingMembers, setLoadingMembers] = useState(false);
+  const [search, setSearch] = useState('');
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [newRole, setNewRole] = useState<MemberRole>('manager');
+  const [confirmation, setConfirmation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setStep('choose');
+    setSearch('');
+    setTargetId(null);
+    setNewRole('manager');
+    setConfirmation('');
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setAllMembers(null);
+    if (!hasMoreMembers) return;
+
+    let cancelled = false;
+    setLoadingMembers(true);
+    fetchAllGroupMembers(group.id)
+      .then((all) => {
+        if (!cancelled) setAllMembers(all);
+      })
+      .catch((error: any) => {
+        console.error('Failed to load members:', error);
+        toast.error(error.userMessage || 'Failed to load members');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingMembers(false);
+      });
+    return () => {
+      cancelled = true;
+      setLoadingMembers(false);
+    };
+  }, [isOpen, hasMoreMembers, group.id]);
+
+  const members = allMembers || loadedMembers;
+
+  const query = search.trim().toLowerCase();
+  const candidates = members.filter(
+    (m) => m.user_id !== currentUserId && (!query || m.user_email.toLowerCase().includes(query))
+  );
+  const target = members.find((m) => m.user_id === targetId);
+  const confirmed = confirmation.trim() === group.name;
+
+  const handleTransfer = async () => {
+    if (!target || !currentUserId) return;
+
+    setSubmitting(true);
+    try {
+      if (target.role !== 'administrator') {
+        await groupsAPI.updateMemberRole(group.id, target.user_id, 'administrator');
+      }
+    } catch (error: any) {
+      console.error('Failed to promote new administrator:', error);
+      toast.error(error.userMessage || 'Failed to promote new administrator');
+      setSubmitting(false);
+      return;
+    }
+
+    try {
+      if (newRole !== 'administrator') {
+        await groupsAPI.updateMemberRole(group.id, currentUserId, newRole);
+      }
+      toast.success(`${target.user_email} is now an administrator`);
+      onClose();
+    } catch (error: any) {
+      // The new administrator is in place, so only the step-down is missing
+      console.error('Failed to change your role:', error);
+      toast.error(
+        `${target.user_email} is now an administrator, but your role could not be changed: ${error.userMessage || 'request failed'}`
+      );
+      onClose();
+    } finally {
+      setSubmitting(false);
+      invalidateMembership(group.id);
+    }
+  };
+
+  const stepIndex = STEPS.indexOf(step);
+  const canContinue = step === 'choose' ? !!target : step === 'role' ? true : confirmed;
+
+  return (
+    <Transition.Root show={isOpen}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <div className="flex items-center">
+                  <ShieldCheckIcon className="h-6 w-6 text-purple-600 mr-2" />
+                  <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                    Transfer Ownership
+                  </Dialog.Title>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">Step {stepIndex + 1} of {STEPS.length}</p>
+
+                <div className="mt-4">
+                  {step === 'choose' && (
+                    <div>
+                      <label htmlFor="transfer-search" className="form-label">
+                        New administrator
+                      </label>
+                      <input
+                        id="transfer-search"
+                        type="search"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="form-input"
+                        placeholder="Search by email"
+                      />
+                      {loadingMembers ? (
+                        <LoadingSpinner size="medium" className="py-4" />
+                      ) : candidates.length === 0 ? (
+                        <p className="mt-3 text-sm text-gray-500">
+                          {query ? 'No members match your search.' : 'Add another member to the group before transferring ownership.'}
+                        </p>
+                      ) : (
+                        <ul className="mt-3 max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                          {candidates.map((member) => (
+                            <li key={member.user_id}>
+                              <label className="flex items-center px-3 py-2 cursor-pointer hover:bg-gray-50">
+                                <input
+                                  type="radio"
+                                  name="transfer-target"
+                                  checked={targetId === member.user_id}
+                                  onChange={() => setTargetId(member.user_id)}
+                                  className="h-4 w-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                                />
+                                <span className="ml-3 flex-1 text-sm text-gray-900 truncate">{member.user_email}</span>
+                                <span className="ml-2 text-xs text-gray-500">{member.role}</span>
+                              </label>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {step === 'role' && (
+                    <fieldset>
+                      <legend className="form-label">Your role afterwards</legend>
+                      <div className="mt-2 space-y-2">
+                        {ROLE_OPTIONS.map((option) => (
+                          <label
+                            key={option.role}
+                            className={`flex items-start p-3 border rounded-lg cursor-pointer ${
+                              newRole === option.role ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name="transfer-role"
+                              checked={newRole === option.role}
+                              onChange={() => setNewRole(option.role)}
+                              className="mt-0.5 h-4 w-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                            />
+                            <span className="ml-3">
+                              <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                              <span className="block text-sm text-gray-500">{option.description}</span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </fieldset>
+                  )}
+
+                  {step === 'confirm' && target && (
+                    <div className="space-y-4">
+                      <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+                        <li>
+                          {target.role === 'administrator'
+                            ? `${target.user_email} is already an administrator.`
+                            : `${target.user_email} will become an administrator.`}
+                        </li>
+                        <li>
+                          {newRole === 'administrator'
+                            ? 'You will stay an administrator.'
+                            : `You will become a ${newRole} and lose administrator rights.`}
+                        </li>
+                      </ul>
+                      <div>
+                        <label htmlFor="transfer-confirm" className="form-label">
+                          Type <strong>{group.name}</strong> to confirm
+                        </label>
+                        <input
+                          id="transfer-confirm"
+                          type="text"
+                          value={confirmation}
+                          onChange={(e) => setConfirmation(e.target.value)}
+                          className="form-input"
+                          autoComplete="off"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-5 sm:mt-6 sm:grid sm:grid-flow-row-dense sm:grid-cols-2 sm:gap-3">
+                  {step === 'confirm' ? (
+                    <button
+                      type="button"
+                      onClick={handleTransfer}
+                      disabled={!canContinue || submitting}
+                      className="btn-danger w-full sm:col-start-2 disabled:opacity-50"
+                    >
+                      {submitting ? 'Transferring...' : 'Transfer Ownership'}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setStep(STEPS[stepIndex + 1])}
+                      disabled={!canContinue}
+                      className="btn-primary w-full sm:col-start-2 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="mt-3 inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 sm:col-start-1 sm:mt-0"
+                    onClick={stepIndex === 0 ? onClose : () => setStep(STEPS[stepIndex - 1])}
+                    disabled={submitting}
+                  >
+                    {stepIndex === 0 ? 'Cancel' : 'Back'}
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default TransferOwnershipModal;
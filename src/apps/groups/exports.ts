@@ -0,0 +1,60 @@
+import { GroupMembership, GroupInvitation, JoinRequest, AuditEvent } from '../../shared/utils/api';
+import { ExportColumn } from '../../shared/utils/export';
+import { effectiveStatus } from './invitations';
+
+// Columns for exported group data
+
+export const memberExportColumns: ExportColumn<GroupMembership>[] = [
+  { header: 'user_id', value: (m) => m.user_id },
+  { header: 'user_email', value: (m) => m.user_email },
+  { header: 'role', value: (m) => m.role },
+  { header: 'joined_at', value: (m) => m.joined_at },
+  { header: 'added_by', value: (m) => m.added_by },
+];
+
+export const invitationExportColumns: ExportColumn<GroupInvitation>[] = [
+  { header: 'id', value: (i) => i.id },
+  { header: 'email', value: (i) => i.email },
+  { header: 'role', value: (i) => i.role },
+  { header: 'status', value: (i) => effectiveStatus(i) },
+  { header: 'created_at', value: (i) => i.created_at },
+  { header: 'expires_at', value: (i) => i.expires_at },
+  { header: 'invited_by', value: (i) => i.invited_by },
+  { header: 'accepted_at', value: (i) => i.accepted_at },
+  { header: 'accepted_by', value: (i) => i.accepted_by },
+  { header: 'declined_at', value: (i) => i.declined_at },
+  { header: 'decline_reason', value: (i) => i.decline_reason },
+  { header: 'message', value: (i) => i.metadata?.message },
+];
+
+export const joinRequestExportColumns: ExportColumn<JoinRequest>[] = [
+  { header: 'id', value: (r) => r.id },
+  { header: 'user_id', value: (r) => r.user_id },
+  { header: 'user_email', value: (r) => r.user_email },
+  { header: 'user_name', value: (r) => r.user_name },
+  { header: 'message', value: (r) => r.message },
+  { header: 'status', value: (r) => r.status },
+  { header: 'created_at', value: (r) => r.created_at },
+  { header: 'reviewed_at', value: (r) => r.reviewed_at },
+  { header: 'reviewed_by', value: (r) => r.reviewed_by },
+  { header: 'reviewer_comment', value: (r) => r.reviewer_comment },
+];
+
+export const auditEventExportColumns: ExportColumn<AuditEvent>[] = [
+  { header: 'id', value: (e) => e.id },
+  { header: 'created_at', value: (e) => e.created_at },
+  { header: 'category', value: (e) => e.category },
+  { header: 'action', value: (e) => e.action },
+  { header: 'actor_id', value: (e) => e.actor_id },
+  { header: 'actor_email', value: (e) => e.actor_email },
+  { header: 'target_id', value: (e) => e.target_id },
+  { header: 'target_email', value: (e) => e.target_email },
+  { header: 'changes', value: (e) => (e.changes ? JSON.stringify(e.changes) : undefined) },
+  { header: 'details', value: (e) => (e.details ? JSON.stringify(e.details) : undefined) },
+];
+
+// File-system friendly base name for export files, e.g. "my-group-members"
+export const exportFilename = (groupName: string, suffix: string) => {
+  const base = groupName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'group';
+  return `${base}-${suffix}`;
+};
@@ -0,0 +1,38 @@
+import { AuditEventCategory, AuditEventFilters } from '../../../shared/utils/api';
+import {
+  useSearchParamFilters,
+  FilterSchema,
+  textParam,
+  dateParam,
+  listParam,
+} from '../../../shared/hooks/useSearchParamFilters';
+
+export interface ActivityFilters {
+  categories: AuditEventCategory[];
+  actorId: string;
+  // Inclusive yyyy-MM-dd bounds on the event date
+  from: string;
+  to: string;
+}
+
+export const AUDIT_EVENT_CATEGORIES: AuditEventCategory[] = ['membership', 'role', 'invitation', 'join_request', 'settings'];
+
+// Query parameters for the audit events endpoint, which does the filtering
+export const toAuditEventFilters = (filters: ActivityFilters): AuditEventFilters => ({
+  category: filters.categories.join(',') || undefined,
+  actor_id: filters.actorId || undefined,
+  from: filters.from || undefined,
+  to: filters.to || undefined,
+});
+
+const FILTER_PARAMS: FilterSchema<ActivityFilters> = {
+  categories: listParam('activity_category', AUDIT_EVENT_CATEGORIES),
+  actorId: textParam('activity_actor'),
+  from: dateParam('activity_from'),
+  to: dateParam('activity_to'),
+};
+
+// Filter state for the activity tab, kept in the query string
+// (?activity_category=, ?activity_actor=, ?activity_from=, ?activity_to=)
+// so it doesn't collide with the invitation filters
+export const useActivityFilters = () => useSearchParamFilters(FILTER_PARAMS);
@@ -0,0 +1,51 @@
+import { GroupInvitation } from '../../../shared/utils/api';
+import {
+  useSearchParamFilters,
+  FilterSchema,
+  textParam,
+  dateParam,
+  listParam,
+} from '../../../shared/hooks/useSearchParamFilters';
+import { effectiveStatus } from '../invitations';
+
+export type InvitationStatus = GroupInvitation['status'];
+
+export interface InvitationFilters {
+  statuses: InvitationStatus[];
+  // Inclusive yyyy-MM-dd bounds on the invitation date
+  from: string;
+  to: string;
+  invitedBy: string;
+}
+
+export const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'declined', 'expired', 'revoked'];
+
+// Newest first
+export const filterInvitations = (invitations: GroupInvitation[], filters: InvitationFilters) => {
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+  return invitations
+    .filter((invitation) => {
+      if (filters.statuses.length > 0 && !filters.statuses.includes(effectiveStatus(invitation))) {
+        return false;
+      }
+      if (filters.invitedBy && invitation.invited_by !== filters.invitedBy) {
+        return false;
+      }
+      const created = new Date(invitation.created_at).getTime();
+      return created >= from && created <= to;
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+};
+
+const FILTER_PARAMS: FilterSchema<InvitationFilters> = {
+  statuses: listParam('status', INVITATION_STATUSES),
+  from: dateParam('from'),
+  to: dateParam('to'),
+  invitedBy: textParam('invited_by'),
+};
+
+// Filter state for the invitations tab, kept in the query string (?status=,
+// ?from=, ?to=, ?invited_by=) like the member filters
+export const useInvitationFilters = () => useSearchParamFilters(FILTER_PARAMS);
@@ -0,0 +1,31 @@
+import { JoinRequest } from '../../../shared/utils/api';
+import { useSearchParamFilters, FilterSchema, textParam, listParam } from '../../../shared/hooks/useSearchParamFilters';
+
+export type JoinRequestStatus = JoinRequest['status'];
+
+export interface JoinRequestFilters {
+  statuses: JoinRequestStatus[];
+  reviewedBy: string;
+}
+
+export const JOIN_REQUEST_STATUSES: JoinRequestStatus[] = ['pending', 'approved', 'denied', 'expired'];
+
+// Newest first
+export const filterJoinRequests = (requests: JoinRequest[], filters: JoinRequestFilters) =>
+  requests
+    .filter((request) => {
+      if (filters.statuses.length > 0 && !filters.statuses.includes(request.status)) {
+        return false;
+      }
+      return !filters.reviewedBy || request.reviewed_by === filters.reviewedBy;
+    })
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+const FILTER_PARAMS: FilterSchema<JoinRequestFilters> = {
+  statuses: listParam('request_status', JOIN_REQUEST_STATUSES),
+  reviewedBy: textParam('reviewed_by'),
+};
+
+// Filter state for the join request history, kept in the query string
+// (?request_status=, ?reviewed_by=) like the member and invitation filters
+export const useJoinRequestFilters = () => useSearchParamFilters(FILTER_PARAMS);
@@ -0,0 +1,83 @@
+import { GroupMembership } from '../../../shared/utils/api';
+import {
+  useSearchParamFilters,
+  FilterSchema,
+  textParam,
+  listParam,
+  choiceParam,
+} from '../../../shared/hooks/useSearchParamFilters';
+
+export type MemberRole = GroupMembership['role'];
+export type MemberSortField = 'joined' | 'role' | 'email';
+export type SortDirection = 'asc' | 'desc';
+
+export interface MemberFilters {
+  search: string;
+  roles: MemberRole[];
+  sort: MemberSortField;
+  direction: SortDirection;
+}
+
+export const MEMBER_ROLES: MemberRole[] = ['administrator', 'manager', 'member'];
+
+// Highest role first when sorting ascending
+const ROLE_RANK: Record<MemberRole, number> = {
+  administrator: 0,
+  manager: 1,
+  member: 2,
+};
+
+const SORT_FIELDS: MemberSortField[] = ['joined', 'role', 'email'];
+
+const compareMembers = (a: GroupMembership, b: GroupMembership, field: MemberSortField) => {
+  switch (field) {
+    case 'role':
+      return ROLE_RANK[a.role] - ROLE_RANK[b.role] || a.user_email.localeCompare(b.user_email);
+    case 'email':
+      return a.user_email.localeCompare(b.user_email);
+    case 'joined':
+    default:
+      return new Date(a.joined_at).getTime() - new Date(b.joined_at).getTime();
+  }
+};
+
+export const filterMembers = (members: GroupMembership[], filters: MemberFilters) => {
+  const search = filters.search.trim().toLowerCase();
+
+  const matching = members.filter((member) => {
+    if (filters.roles.length > 0 && !filters.roles.includes(member.role)) {
+      return false;
+    }
+    if (search) {
+      return (
+        member.user_email.toLowerCase().includes(search) ||
+        member.user_id.toLowerCase().includes(search)
+      );
+    }
+    return true;
+  });
+
+  const direction = filters.direction === 'desc' ? -1 : 1;
+  return matching.sort((a, b) => compareMembers(a, b, filters.sort) * direction);
+};
+
+const FILTER_PARAMS: FilterSchema<MemberFilters> = {
+  search: textParam('q'),
+  roles: listParam('role', MEMBER_ROLES),
+  sort: choiceParam('sort', SORT_FIELDS, 'joined'),
+  direction: choiceParam<SortDirection>('dir', ['asc', 'desc'], 'asc'),
+};
+
+// Sorting is kept when the filters are cleared
+const CLEARABLE: (keyof MemberFilters)[] = ['search', 'roles'];
+
+// Filter state for the members tab, kept in the query string (?q=, ?role=,
+// ?sort=, ?dir=) so a filtered view can be shared by link
+export const useMemberFilters = () => {
+  const { filters, updateFilters, clearFilters } = useSearchParamFilters(FILTER_PARAMS, CLEARABLE);
+
+  // A blank search doesn't filter anything
+  const isFiltered = filters.search.trim() !== '' || filters.roles.length > 0;
+
+  return { filters, updateFilters, clearFilters, isFiltered };
+};
@@ -0,0 +1,54 @@
+import { CreateInvitationData, GroupInvitation } from '../../shared/utils/api';
+import { queryCache } from '../../shared/utils/queryCache';
+import { queryKeys } from '../../shared/hooks/useGroupsQueries';
+
+// Expiry periods offered when sending or resending an invitation
+export const EXPIRY_OPTIONS = [1, 3, 7, 14, 30];
+export const DEFAULT_EXPIRY_DAYS = 7;
+export const MAX_MESSAGE_LENGTH = 500;
+
+export const expiryLabel = (days: number) => (days === 1 ? '1 day' : `${days} days`);
+
+// After the current user accepts or declines an invitation: it leaves their
+// pending list and badges, and accepting adds a group to their lists
+export const invalidateInvitationResponse = (accepted: boolean) => {
+  queryCache.invalidate(queryKeys.pendingInvitations());
+  queryCache.invalidate(queryKeys.notifications());
+  if (accepted) {
+    queryCache.invalidate(queryKeys.groupLists());
+  }
+};
+
+// Invitation request body with the optional personal message carried in metadata
+export const invitationData = (
+  email: string,
+  role: string,
+  expiresInDays: number,
+  message?: string
+): CreateInvitationData => ({
+  email,
+  role,
+  expires_in_days: expiresInDays,
+  ...(message?.trim() ? { metadata: { message: message.trim() } } : {}),
+});
+
+export const canResend = (invitation: GroupInvitation) =>
+  invitation.status === 'pending' || invitation.status === 'expired';
+
+// Pending invitations past their expiry date may not have been marked
+// expired by the server yet
+export const isLapsed = (invitation: GroupInvitation) =>
+  invitation.status === 'expired' ||
+  (invitation.status === 'pending' && new Date(invitation.expires_at) < new Date());
+
+// Pending invitations expiring within this many days are listed in the
+// review inbox along with lapsed ones
+export const STALE_INVITATION_DAYS = 2;
+
+export const isStale = (invitation: GroupInvitation) =>
+  invitation.status === 'pending' &&
+  new Date(invitation.expires_at).getTime() < Date.now() + STALE_INVITATION_DAYS * 24 * 60 * 60 * 1000;
+
+// Status as shown to managers, with lapsed pending invitations counted as expired
+export const effectiveStatus = (invitation: GroupInvitation): GroupInvitation['status'] =>
+  isLapsed(invitation) ? 'expired' : invitation.status;
@@ -0,0 +1,69 @@
+import { joinRequestsAPI, JoinRequest } from '../../shared/utils/api';
+import { queryCache } from '../../shared/utils/queryCache';
+import { queryKeys } from '../../shared/hooks/useGroupsQueries';
+import { runWithConcurrency } from '../../shared/utils/concurrency';
+import { MemberRole } from './hooks/useMemberFilters';
+
+export type ReviewDecision = 'approved' | 'denied';
+
+// Every review is recorded in the activity log; approvals also change the
+// member list and counts
+export const invalidateReviewedRequests = (groupId: string, approved: boolean) => {
+  queryCache.invalidate(queryKeys.joinRequests(groupId));
+  queryCache.invalidate(queryKeys.pendingReviews());
+  queryCache.invalidate(queryKeys.auditEvents(groupId));
+  if (approved) {
+    queryCache.invalidate(queryKeys.members(groupId));
+    queryCache.invalidate(queryKeys.group(groupId));
+    queryCache.invalidate(queryKeys.groupLists());
+  }
+};
+
+const reviewJoinRequest = (
+  groupId: string,
+  request: JoinRequest,
+  decision: ReviewDecision,
+  options: { role?: MemberRole; comment?: string }
+) => {
+  const comment = options.comment?.trim() || undefined;
+  return decision === 'approved'
+    ? joinRequestsAPI.approveJoinRequest(groupId, request.id, { role: options.role, comment })
+    : joinRequestsAPI.denyJoinRequest(groupId, request.id, { comment });
+};
+
+export const bulkReviewJoinRequests = async (
+  groupId: string,
+  requests: JoinRequest[],
+  decision: ReviewDecision,
+  options: { role?: MemberRole; comment?: string },
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const results = await runWithConcurrency(
+    requests,
+    (request) => reviewJoinRequest(groupId, request, decision, options),
+    { onProgress }
+  );
+  invalidateReviewedRequests(groupId, decision === 'approved' && results.some((r) => r.ok));
+  return results;
+};
+
+// Requests from several groups at once, as selected in the review inbox
+export const bulkReviewAcrossGroups = async (
+  requests: JoinRequest[],
+  decision: ReviewDecision,
+  options: { role?: MemberRole; comment?: string },
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const results = await runWithConcurrency(
+    requests,
+    (request) => reviewJoinRequest(request.group_id, request, decision, options),
+    { onProgress }
+  );
+  new Set(results.map((r) => r.item.group_id)).forEach((groupId) => {
+    invalidateReviewedRequests(
+      groupId,
+      decision === 'approved' && results.some((r) => r.ok && r.item.group_id === groupId)
+    );
+  });
+  return results;
+};
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../../shared/contexts/AuthContext';
-import { groupsAPI } from '../../../shared/utils/api';
+import { groupsAPI, InvitationMetadata } from '../../../shared/utils/api';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import DeclineInvitationModal from '../components/DeclineInvitationModal';
+import { invalidateInvitationResponse } from '../invitations';
 import {
   UserGroupIcon,
   CheckCircleIcon,
@@ -18,6 +20,7 @@ interface InvitationInfo {
   role: string;
   expires_at: string;
   is_valid: boolean;
+  metadata?: InvitationMetadata;
 }
 
 const AcceptInvitation: React.FC = () => {
@@ -27,6 +30,7 @@ const AcceptInvitation: React.FC = () => {
   const [invitationInfo, setInvitationInfo] = useState<InvitationInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [accepting, setAccepting] = useState(false);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -62,6 +66,7 @@ const AcceptInvitation: React.FC = () => {
       setAccepting(true);
       await groupsAPI.acceptInvitation(token);
       toast.success('Invitation accepted successfully!');
+      invalidateInvitationResponse(true);
       navigate('/dashboard');
     } catch (error: any) {
       console.error('Failed to accept invitation:', error);
@@ -151,6 +156,15 @@ const AcceptInvitation: React.FC = () => {
             </div>
           </div>
 
+          {invitationInfo.metadata?.message && (
+            <div className="border-t border-gray-200 pt-4 mb-4">
+              <p className="text-sm font-medium text-gray-700 mb-1">Message from the inviter</p>
+              <p className="text-sm text-gray-600 whitespace-pre-line">
+                {invitationInfo.metadata.message}
+              </p>
+            </div>
+          )}
+
           <div className="border-t border-gray-200 pt-4 mb-6">
             <div className="flex items-center justify-center text-sm text-gray-500">
               <ClockIcon className="h-4 w-4 mr-1" />
@@ -223,11 +237,28 @@ const AcceptInvitation: React.FC = () => {
                 >
                   Maybe Later
                 </button>
+                <button
+                  onClick={() => setShowDeclineModal(true)}
+                  disabled={accepting}
+                  className="w-full text-sm text-red-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Decline Invitation
+                </button>
               </div>
             </div>
           )}
         </div>
 
+        {token && (
+          <DeclineInvitationModal
+            isOpen={showDeclineModal}
+            onClose={() => setShowDeclineModal(false)}
+            onSuccess={() => navigate('/dashboard')}
+            token={token}
+            groupName={invitationInfo.group_name}
+          />
+        )}
+
         <div className="text-center">
           <p className="text-xs text-gray-500">
             DERIVA Group Management System
@@ -1,8 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../../../shared/contexts/AuthContext';
 import { groupsAPI, Group, GroupInvitation } from '../../../shared/utils/api';
+import { useGroupsList, usePendingInvitations } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import DeclineInvitationModal from '../components/DeclineInvitationModal';
+import LeaveGroupModal from '../components/LeaveGroupModal';
+import DashboardActivityFeed from '../components/DashboardActivityFeed';
+import { invalidateInvitationResponse } from '../invitations';
 import {
   UserGroupIcon,
   PlusIcon,
@@ -15,58 +22,39 @@ import toast from 'react-hot-toast';
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [recentGroups, setRecentGroups] = useState<Group[]>([]);
-  const [pendingInvitations, setPendingInvitations] = useState<GroupInvitation[]>([]);
-  const [stats, setStats] = useState({
-    totalGroups: 0,
-    memberGroups: 0,
-    adminGroups: 0,
-    pendingInvitations: 0,
+  const groupsQuery = useGroupsList(true);
+  const invitationsQuery = usePendingInvitations();
+  const loading = groupsQuery.isLoading || invitationsQuery.isLoading;
+  const [decliningInvitation, setDecliningInvitation] = useState<GroupInvitation | null>(null);
+  const [declinedInvitation, clearDeclinedInvitation] = useLingeringValue(decliningInvitation);
+  const [leavingGroup, setLeavingGroup] = useState<Group | null>(null);
+
+  useQueryError(groupsQuery.error || invitationsQuery.error, (error) => {
+    console.error('Failed to load dashboard data:', error);
+    toast.error(error.userMessage || 'Failed to load dashboard data');
   });
 
-  useEffect(() => {
-    loadDashboardData();
-  }, []);
+  const userGroups = groupsQuery.data || [];
+  const invitations = invitationsQuery.data || [];
 
-  const loadDashboardData = async () => {
-    try {
-      setLoading(true);
-      
-      // Load user's groups
-      const groupsResponse = await groupsAPI.listGroups(true);
-      const userGroups = groupsResponse.data.groups;
-      
-      // Load pending invitations
-      const invitationsResponse = await groupsAPI.getPendingInvitations();
-      const invitations = invitationsResponse.data.invitations;
-      
-      // Calculate stats
-      const adminGroups = userGroups.filter(g => g.membership?.role === 'administrator');
-      const memberGroups = userGroups.filter(g => g.membership?.role === 'member');
-      
-      setRecentGroups(userGroups.slice(0, 5)); // Show 5 most recent
-      setPendingInvitations(invitations.slice(0, 3)); // Show 3 most recent
-      setStats({
-        totalGroups: userGroups.length,
-        memberGroups: memberGroups.length,
-        adminGroups: adminGroups.length,
-        pendingInvitations: invitations.length,
-      });
-      
-    } catch (error: any) {
-      console.error('Failed to load dashboard data:', error);
-      toast.error(error.userMessage || 'Failed to load dashboard data');
-    } finally {
-      setLoading(false);
-    }
+  // Calculate stats
+  const adminGroups = userGroups.filter(g => g.membership?.role === 'administrator');
+  const memberGroups = userGroups.filter(g => g.membership?.role === 'member');
+
+  const recentGroups = userGroups.slice(0, 5); // Show 5 most recent
+  const pendingInvitations = invitations.slice(0, 3); // Show 3 most recent
+  const stats = {
+    totalGroups: userGroups.length,
+    memberGroups: memberGroups.length,
+    adminGroups: adminGroups.length,
+    pendingInvitations: invitations.length,
   };
 
   const acceptInvitation = async (token: string) => {
     try {
       await groupsAPI.acceptInvitation(token);
       toast.success('Invitation accepted successfully!');
-      loadDashboardData(); // Refresh data
+      invalidateInvitationResponse(true);
     } catch (error: any) {
       console.error('Failed to accept invitation:', error);
       toast.error(error.userMessage || 'Failed to accept invitation');
@@ -214,12 +202,20 @@ const Dashboard: React.FC = () => {
                         <p className="text-sm text-gray-500 mt-1">{group.description}</p>
                       )}
                     </div>
-                    <Link
-                      to={`/detail/${group.id}`}
-                      className="text-primary-600 hover:text-primary-500 text-sm font-medium"
-                    >
-                      View
-                    </Link>
+                    <div className="ml-3 flex items-center space-x-3">
+                      <button
+                        onClick={() => setLeavingGroup(group)}
+                        className="text-gray-500 hover:text-red-600 text-sm font-medium"
+                      >
+                        Leave
+                      </button>
+                      <Link
+                        to={`/detail/${group.id}`}
+                        className="text-primary-600 hover:text-primary-500 text-sm font-medium"
+                      >
+                        View
+                      </Link>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -264,12 +260,20 @@ const Dashboard: React.FC = () => {
                           Expires {format(new Date(invitation.expires_at), 'MMM d, yyyy')}
                         </div>
                       </div>
-                      <button
-                        onClick={() => acceptInvitation(invitation.token)}
-                        className="ml-3 btn-primary text-xs"
-                      >
-                        Accept
-                      </button>
+                      <div className="ml-3 flex items-center space-x-2">
+                        <button
+                          onClick={() => setDecliningInvitation(invitation)}
+                          className="btn-secondary text-xs"
+                        >
+                          Decline
+                        </button>
+                        <button
+                          onClick={() => acceptInvitation(invitation.token)}
+                          className="btn-primary text-xs"
+                        >
+                          Accept
+                        </button>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -278,6 +282,26 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
       </div>
+
+      <DashboardActivityFeed groups={groupsQuery.data} currentUserId={user?.id} />
+
+      <DeclineInvitationModal
+        isOpen={!!decliningInvitation}
+        onClose={() => setDecliningInvitation(null)}
+        afterLeave={clearDeclinedInvitation}
+        onSuccess={() => {
+          setDecliningInvitation(null);
+        }}
+        token={declinedInvitation?.token || ''}
+        groupName={declinedInvitation?.group?.name}
+      />
+
+      <LeaveGroupModal
+        group={leavingGroup}
+        currentUserId={user?.id}
+        onClose={() => setLeavingGroup(null)}
+        onLeft={() => setLeavingGroup(null)}
+      />
     </div>
   );
 };
@@ -1,10 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import React, { useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useAuth } from '../../../shared/contexts/AuthContext';
-import { groupsAPI, Group, GroupMembership, GroupInvitation, joinRequestsAPI, JoinRequest } from '../../../shared/utils/api';
+import { useConfig } from '../../../shared/contexts/ConfigContext';
+import { groupsAPI, joinRequestsAPI, GroupMembership, GroupInvitation, JoinRequest } from '../../../shared/utils/api';
+import { getUiBaseUrl } from '../../../shared/utils/config';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { scheduleUndoable } from '../../../shared/utils/undoableActions';
+import {
+  queryKeys,
+  useGroup,
+  useGroupMembers,
+  useGroupInvitations,
+  useGroupJoinRequests,
+  useGroupJoinRequestHistory,
+  fetchAllGroupMembers,
+} from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import {
+  useMemberMutations,
+  mergePendingRemovals,
+  bulkUpdateMemberRoles,
+  bulkRemoveMembers,
+} from '../../../shared/hooks/useMemberMutations';
+import { TaskResult } from '../../../shared/utils/concurrency';
+import { downloadExport, ExportFormat } from '../../../shared/utils/export';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import VirtualList from '../../../shared/components/VirtualList';
+import BulkResultsModal, { BulkResult } from '../../../shared/components/BulkResultsModal';
+import ExportMenu from '../../../shared/components/ExportMenu';
 import InviteMemberModal from '../components/InviteMemberModal';
 import EditGroupModal from '../components/EditGroupModal';
+import MemberFilters from '../components/MemberFilters';
+import MemberBulkActions from '../components/MemberBulkActions';
+import InvitationFilters from '../components/InvitationFilters';
+import InvitationDetailDrawer from '../components/InvitationDetailDrawer';
+import JoinRequestReviewModal from '../components/JoinRequestReviewModal';
+import JoinRequestBulkActions from '../components/JoinRequestBulkActions';
+import JoinRequestFilters from '../components/JoinRequestFilters';
+import JoinLinksPanel from '../components/JoinLinksPanel';
+import JoinRequestBulkReviewModal from '../components/JoinRequestBulkReviewModal';
+import ShareJoinLinkModal from '../components/ShareJoinLinkModal';
+import TransferOwnershipModal from '../components/TransferOwnershipModal';
+import LeaveGroupModal from '../components/LeaveGroupModal';
+import GroupActivityLog from '../components/GroupActivityLog';
+import {
+  memberExportColumns,
+  invitationExportColumns,
+  joinRequestExportColumns,
+  exportFilename,
+} from '../exports';
+import { useMemberFilters, filterMembers, MemberRole } from '../hooks/useMemberFilters';
+import { useInvitationFilters, filterInvitations } from '../hooks/useInvitationFilters';
+import { useJoinRequestFilters, filterJoinRequests } from '../hooks/useJoinRequestFilters';
+import { ReviewDecision, invalidateReviewedRequests, bulkReviewJoinRequests } from '../joinRequests';
+import { EXPIRY_OPTIONS, expiryLabel, canResend, isLapsed, effectiveStatus } from '../invitations';
+import { countAdministrators, demotedAdministrators, lastAdministratorBlock } from '../administrators';
 import {
   UsersIcon,
   EnvelopeIcon,
@@ -13,26 +63,27 @@ import {
   ArrowLeftIcon,
   EllipsisVerticalIcon,
   InboxIcon,
+  QrCodeIcon,
+  ShieldCheckIcon,
+  ArrowRightOnRectangleIcon,
+  ClockIcon,
 } from '@heroicons/react/24/outline';
 import { Menu, Transition } from '@headlessui/react';
 import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
+type GroupTab = 'members' | 'invitations' | 'requests' | 'activity';
+
+const GROUP_TABS: GroupTab[] = ['members', 'invitations', 'requests', 'activity'];
+
 const GroupDetail: React.FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
-  const uiBasePath = '/deriva/apps/groups'
+  const config = useConfig();
 
   // Helper function to get the correct UI base URL for join links
-  const getJoinLinkBase = () => {
-    if (typeof window !== 'undefined') {
-      // Use environment variable for UI base path
-      const basePath = import.meta.env.VITE_UI_BASE_PATH || uiBasePath;
-      return `${window.location.origin}${basePath}`;
-    }
-    return `${window.location.origin}${uiBasePath}`;
-  };
+  const getJoinLinkBase = () => getUiBaseUrl(config);
 
   const getUserInitials = (email: string) => {
     const parts = email.split('@')[0].split('.');
@@ -41,148 +92,375 @@ const GroupDetail: React.FC = () => {
     }
     return email.substring(0, 2).toUpperCase();
   };
-  const [group, setGroup] = useState<Group | null>(null);
-  const [members, setMembers] = useState<GroupMembership[]>([]);
-  const [invitations, setInvitations] = useState<GroupInvitation[]>([]);
-  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'members' | 'invitations' | 'requests'>('members');
+  // The tab lives in the query string so links such as
+  // /detail/:groupId?tab=requests open on it, even from this page
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get('tab') as GroupTab;
+  const activeTab: GroupTab = GROUP_TABS.includes(tabParam) ? tabParam : 'members';
+  const setActiveTab = (tab: GroupTab) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      if (tab === 'members') {
+        params.delete('tab');
+      } else {
+        params.set('tab', tab);
+      }
+      return params;
+    }, { replace: true });
+  };
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
 
-  useEffect(() => {
-    if (groupId) {
-      loadGroupData();
+  const groupQuery = useGroup(groupId);
+  const group = groupQuery.data;
+
+  const canManageGroup = group?.membership?.role === 'administrator' || group?.membership?.role === 'manager';
+  const canAdminGroup = group?.membership?.role === 'administrator';
+
+  // Invitations and join requests are only loaded if user can manage the group
+  const membersQuery = useGroupMembers(groupId);
+  const invitationsQuery = useGroupInvitations(groupId, canManageGroup);
+  const joinRequestsQuery = useGroupJoinRequests(groupId, canManageGroup);
+  // Full request history is only loaded once a manager opens it
+  const [requestsView, setRequestsView] = useState<'pending' | 'history'>('pending');
+  const joinRequestHistoryQuery = useGroupJoinRequestHistory(
+    groupId,
+    canManageGroup && activeTab === 'requests' && requestsView === 'history'
+  );
+  const members = membersQuery.items;
+  // Members are loaded in pages; fall back to the loaded count for backends
+  // that return the full list without a total
+  const memberCount = membersQuery.total ?? members.length;
+  const { pendingActions, pendingRemovals, updateRole, removeMember, undoRemoval } = useMemberMutations(groupId);
+  // Members being removed stay visible, marked pending, until the server confirms
+  const displayedMembers = mergePendingRemovals(members, pendingRemovals);
+  const { filters: memberFilters, updateFilters, clearFilters, isFiltered } = useMemberFilters();
+  const filteredMembers = filterMembers(displayedMembers, memberFilters);
+
+  // Bulk selection; only members the current user could act on individually
+  const [selectedMemberIds, setSelectedMemberIds] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [bulkResults, setBulkResults] = useState<{ title: string; results: BulkResult[] } | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [resendingInvitationId, setResendingInvitationId] = useState<string | null>(null);
+  const [detailInvitation, setDetailInvitation] = useState<GroupInvitation | null>(null);
+  const [reviewingRequest, setReviewingRequest] = useState<JoinRequest | null>(null);
+  const [selectedRequestIds, setSelectedRequestIds] = useState<Set<string>>(new Set());
+  const [bulkReviewDecision, setBulkReviewDecision] = useState<ReviewDecision | null>(null);
+  const [sharingJoinLink, setSharingJoinLink] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [showLeaveModal, setShowLeaveModal] = useState(false);
+  const isSelectable = (member: GroupMembership) =>
+    canManageGroup && member.user_id !== user?.id && !pendingActions[member.user_id];
+  const selectableMembers = filteredMembers.filter(isSelectable);
+  const selectedMembers = displayedMembers.filter((m) => selectedMemberIds.has(m.user_id));
+  const allMatchingSelected = selectableMembers.length > 0 && selectableMembers.every((m) => selectedMemberIds.has(m.user_id));
+  const invitations = invitationsQuery.data || [];
+  const {
+    filters: invitationFilters,
+    updateFilters: updateInvitationFilters,
+    clearFilters: clearInvitationFilters,
+    isFiltered: isInvitationFiltered,
+  } = useInvitationFilters();
+  const filteredInvitations = filterInvitations(invitations, invitationFilters);
+  const joinRequests = joinRequestsQuery.data || [];
+  const {
+    filters: joinRequestFilters,
+    updateFilters: updateJoinRequestFilters,
+    clearFilters: clearJoinRequestFilters,
+    isFiltered: isJoinRequestFiltered,
+  } = useJoinRequestFilters();
+  const joinRequestHistory = joinRequestHistoryQuery.data || [];
+  const filteredJoinRequestHistory = filterJoinRequests(joinRequestHistory, joinRequestFilters);
+  const displayedRequests = requestsView === 'history' ? filteredJoinRequestHistory : joinRequests;
+  const pendingRequests = joinRequests.filter((r) => r.status === 'pending');
+  const selectedRequests = pendingRequests.filter((r) => selectedRequestIds.has(r.id));
+  const allRequestsSelected = pendingRequests.length > 0 && selectedRequests.length === pendingRequests.length;
+  const loading = groupQuery.isLoading || membersQuery.isLoading;
+  const administratorCount = countAdministrators(group, members, { complete: !membersQuery.hasMore, pendingRemovals });
+  // With only the first page loaded the count comes from the server, which
+  // lags behind role changes in flight and removals just committed
+  const administratorCountSettling =
+    membersQuery.hasMore && (Object.values(pendingActions).includes('role') || groupQuery.isFetching);
+
+  // Refuse role changes and removals that would leave no administrator
+  const guardAdministrators = (affected: GroupMembership[], role?: MemberRole) => {
+    if (administratorCountSettling && demotedAdministrators(affected, role).length > 0) {
+      toast.error('Another membership change is still being saved. Try again in a moment.');
+      return false;
+    }
+    const reason = lastAdministratorBlock(administratorCount, affected, role);
+    if (reason) {
+      toast.error(reason, { duration: 6000 });
     }
-  }, [groupId]);
+    return !reason;
+  };
 
-  const loadGroupData = async () => {
-    if (!groupId) return;
-    
+  const loadError =
+    groupQuery.error ||
+    membersQuery.error ||
+    invitationsQuery.error ||
+    joinRequestsQuery.error ||
+    joinRequestHistoryQuery.error;
+  useQueryError(loadError, (error) => {
+    console.error('Failed to load group data:', error);
+    if (error.response?.status === 403) {
+      toast.error('You do not have permission to view this group');
+      navigate('/detail');
+    } else if (error.response?.status === 404) {
+      toast.error('Group not found');
+      navigate('/detail');
+    } else {
+      toast.error(error.userMessage || 'Failed to load group data');
+    }
+  });
+
+  const handleLoadMoreMembers = async () => {
     try {
-      setLoading(true);
-      
-      // Load group details
-      const groupResponse = await groupsAPI.getGroup(groupId);
-      setGroup(groupResponse.data);
-      
-      // Load members
-      const membersResponse = await groupsAPI.getGroupMembers(groupId);
-      setMembers(membersResponse.data.members);
-      
-      // Load invitations if user can manage the group
-      const userMembership = groupResponse.data.membership;
-      if (userMembership && (userMembership.role === 'administrator' || userMembership.role === 'manager')) {
-        const invitationsResponse = await groupsAPI.getGroupInvitations(groupId);
-        setInvitations(invitationsResponse.data.invitations);
-        
-        // Load join requests
-        const joinRequestsResponse = await joinRequestsAPI.getGroupJoinRequests(groupId);
-        setJoinRequests(joinRequestsResponse.data.join_requests);
-      }
-      
+      await membersQuery.loadMore();
     } catch (error: any) {
-      console.error('Failed to load group data:', error);
-      if (error.response?.status === 403) {
-        toast.error('You do not have permission to view this group');
-        navigate('/detail');
-      } else if (error.response?.status === 404) {
-        toast.error('Group not found');
-        navigate('/detail');
+      console.error('Failed to load members:', error);
+      toast.error(error.userMessage || 'Failed to load members');
+    }
+  };
+
+  const toggleMemberSelected = (userId: string) => {
+    setSelectedMemberIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
       } else {
-        toast.error(error.userMessage || 'Failed to load group data');
+        next.add(userId);
       }
-    } finally {
-      setLoading(false);
-    }
+      return next;
+    });
   };
 
-  const handleDeleteGroup = async () => {
-    if (!group || !window.confirm('Are you sure you want to delete this group? This action cannot be undone.')) {
+  const toggleAllMatchingSelected = () => {
+    setSelectedMemberIds((prev) => {
+      const next = new Set(prev);
+      selectableMembers.forEach((m) => {
+        if (allMatchingSelected) {
+          next.delete(m.user_id);
+        } else {
+          next.add(m.user_id);
+        }
+      });
+      return next;
+    });
+  };
+
+  const toBulkResults = (results: TaskResult<GroupMembership>[], successMessage: string): BulkResult[] =>
+    results.map(({ item, ok, error }) => ({
+      label: item.user_email,
+      ok,
+      message: ok ? successMessage : error?.userMessage || 'Request failed',
+    }));
+
+  const handleBulkUpdateRole = async (role: GroupMembership['role']) => {
+    if (!group || selectedMembers.length === 0) return;
+
+    const targets = selectedMembers.filter((m) => m.role !== role);
+    if (targets.length === 0) {
+      toast.success(`All selected members are already ${role}s`);
       return;
     }
-    
-    try {
-      await groupsAPI.deleteGroup(group.id);
-      toast.success('Group deleted successfully');
-      navigate('/detail');
-    } catch (error: any) {
-      console.error('Failed to delete group:', error);
-      toast.error(error.userMessage || 'Failed to delete group');
-    }
+    if (!guardAdministrators(targets, role)) return;
+
+    setBulkProgress({ completed: 0, total: targets.length });
+    const results = await bulkUpdateMemberRoles(group.id, targets, role, (completed, total) =>
+      setBulkProgress({ completed, total })
+    );
+    setBulkProgress(null);
+    setSelectedMemberIds(new Set(results.filter((r) => !r.ok).map((r) => r.item.user_id)));
+    setBulkResults({ title: 'Change Role', results: toBulkResults(results, `Now ${role}`) });
   };
 
-  const handleRemoveMember = async (userId: string) => {
-    if (!group || !window.confirm('Are you sure you want to remove this member?')) {
+  const handleBulkRemove = async () => {
+    if (!group || selectedMembers.length === 0) return;
+    if (!guardAdministrators(selectedMembers)) return;
+    if (!window.confirm(`Are you sure you want to remove ${selectedMembers.length} members from this group?`)) {
       return;
     }
-    
+
+    setBulkProgress({ completed: 0, total: selectedMembers.length });
+    const results = await bulkRemoveMembers(group.id, selectedMembers, (completed, total) =>
+      setBulkProgress({ completed, total })
+    );
+    setBulkProgress(null);
+    setSelectedMemberIds(new Set(results.filter((r) => !r.ok).map((r) => r.item.user_id)));
+    setBulkResults({ title: 'Remove Members', results: toBulkResults(results, 'Removed') });
+  };
+
+  const toggleRequestSelected = (requestId: string) => {
+    setSelectedRequestIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(requestId)) {
+        next.delete(requestId);
+      } else {
+        next.add(requestId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllRequestsSelected = () => {
+    setSelectedRequestIds(allRequestsSelected ? new Set() : new Set(pendingRequests.map((r) => r.id)));
+  };
+
+  const handleBulkReview = async (options: { role?: GroupMembership['role']; comment?: string }) => {
+    const decision = bulkReviewDecision;
+    setBulkReviewDecision(null);
+    if (!group || !decision || selectedRequests.length === 0) return;
+
+    setBulkProgress({ completed: 0, total: selectedRequests.length });
+    const results = await bulkReviewJoinRequests(group.id, selectedRequests, decision, options, (completed, total) =>
+      setBulkProgress({ completed, total })
+    );
+    setBulkProgress(null);
+    setSelectedRequestIds(new Set(results.filter((r) => !r.ok).map((r) => r.item.id)));
+    setBulkResults({
+      title: decision === 'approved' ? 'Approve Join Requests' : 'Deny Join Requests',
+      results: results.map(({ item, ok, error }) => ({
+        label: item.user_name ? `${item.user_name} (${item.user_email})` : item.user_email,
+        ok,
+        message: ok
+          ? decision === 'approved' ? `Approved as ${options.role}` : 'Denied'
+          : error?.userMessage || 'Request failed',
+      })),
+    });
+  };
+
+  const handleBulkExport = () => {
+    if (!group) return;
+    downloadExport('csv', exportFilename(group.name, 'selected-members'), selectedMembers, memberExportColumns);
+  };
+
+  // Exports cover the whole list, not just the loaded pages, with the
+  // current member filters applied
+  const handleExportMembers = async (format: ExportFormat) => {
+    if (!group) return;
+
     try {
-      await groupsAPI.removeGroupMember(group.id, userId);
-      toast.success('Member removed successfully');
-      loadGroupData();
+      setExporting(true);
+      const allMembers = membersQuery.hasMore ? await fetchAllGroupMembers(group.id) : members;
+      downloadExport(format, exportFilename(group.name, 'members'), filterMembers(allMembers, memberFilters), memberExportColumns);
     } catch (error: any) {
-      console.error('Failed to remove member:', error);
-      toast.error(error.userMessage || 'Failed to remove member');
+      console.error('Failed to export members:', error);
+      toast.error(error.userMessage || 'Failed to export members');
+    } finally {
+      setExporting(false);
     }
   };
 
-  const handleUpdateRole = async (userId: string, newRole: string) => {
+  const handleExportInvitations = (format: ExportFormat) => {
     if (!group) return;
-    
+    downloadExport(format, exportFilename(group.name, 'invitations'), filteredInvitations, invitationExportColumns);
+  };
+
+  // Join requests are exported with their full history, not just pending ones
+  const handleExportJoinRequests = async (format: ExportFormat) => {
+    if (!group) return;
+
     try {
-      await groupsAPI.updateMemberRole(group.id, userId, newRole);
-      toast.success('Member role updated successfully');
-      loadGroupData();
+      setExporting(true);
+      const response = await joinRequestsAPI.getGroupJoinRequests(group.id, false);
+      const requests = requestsView === 'history'
+        ? filterJoinRequests(response.data.join_requests, joinRequestFilters)
+        : response.data.join_requests;
+      downloadExport(format, exportFilename(group.name, 'join-requests'), requests, joinRequestExportColumns);
     } catch (error: any) {
-      console.error('Failed to update member role:', error);
-      toast.error(error.userMessage || 'Failed to update member role');
+      console.error('Failed to export join requests:', error);
+      toast.error(error.userMessage || 'Failed to export join requests');
+    } finally {
+      setExporting(false);
     }
   };
 
-  const handleRevokeInvitation = async (invitationId: string) => {
-    if (!group || !window.confirm('Are you sure you want to revoke this invitation?')) {
+  const handleDeleteGroup = async () => {
+    if (!group || !window.confirm('Are you sure you want to delete this group? This action cannot be undone.')) {
       return;
     }
     
     try {
-      await groupsAPI.revokeInvitation(group.id, invitationId);
-      toast.success('Invitation revoked successfully');
-      loadGroupData();
+      await groupsAPI.deleteGroup(group.id);
+      toast.success('Group deleted successfully');
+      queryCache.remove(queryKeys.group(group.id));
+      queryCache.invalidate(queryKeys.groupLists());
+      navigate('/detail');
     } catch (error: any) {
-      console.error('Failed to revoke invitation:', error);
-      toast.error(error.userMessage || 'Failed to revoke invitation');
+      console.error('Failed to delete group:', error);
+      toast.error(error.userMessage || 'Failed to delete group');
     }
   };
 
-  const handleApproveJoinRequest = async (requestId: string, role: string = 'member') => {
+  const handleRemoveMember = (userId: string) => {
     if (!group) return;
-    
-    try {
-      await joinRequestsAPI.approveJoinRequest(group.id, requestId, { role });
-      toast.success('Join request approved successfully');
-      loadGroupData();
-    } catch (error: any) {
-      console.error('Failed to approve join request:', error);
-      toast.error(error.userMessage || 'Failed to approve join request');
-    }
+    if (!guardAdministrators(members.filter((m) => m.user_id === userId))) return;
+    removeMember(userId);
   };
 
-  const handleDenyJoinRequest = async (requestId: string, comment: string = '') => {
-    if (!group || !window.confirm('Are you sure you want to deny this join request?')) {
-      return;
-    }
-    
+  const handleUpdateRole = async (userId: string, newRole: GroupMembership['role']) => {
+    if (!group) return;
+    if (!guardAdministrators(members.filter((m) => m.user_id === userId), newRole)) return;
+    await updateRole(userId, newRole);
+  };
+
+  // Revocations are held back behind an undo toast; the invitation shows as
+  // revoked in the meantime
+  const handleRevokeInvitation = (invitationId: string) => {
+    if (!group) return;
+
+    const invitationsKey = queryKeys.invitations(group.id);
+    const previous = invitations.find((i) => i.id === invitationId);
+    if (!previous) return;
+
+    const setCachedInvitation = (invitation: GroupInvitation) => {
+      queryCache.setData<GroupInvitation[]>(invitationsKey, (current = []) =>
+        current.map((i) => (i.id === invitationId ? invitation : i))
+      );
+    };
+    setCachedInvitation({ ...previous, status: 'revoked' });
+
+    scheduleUndoable({
+      id: `revoke-invitation:${group.id}:${invitationId}`,
+      message: `Revoked invitation for ${previous.email}`,
+      commit: () => groupsAPI.revokeInvitation(group.id, invitationId),
+      queryKeys: [invitationsKey],
+      onUndo: () => setCachedInvitation(previous),
+      onCommitted: () => queryCache.invalidate(invitationsKey),
+      onError: (error: any) => {
+        console.error('Failed to revoke invitation:', error);
+        toast.error(error.userMessage || 'Failed to revoke invitation');
+      },
+    });
+  };
+
+  const handleResendInvitation = async (invitation: GroupInvitation, expiresInDays: number) => {
+    if (!group) return;
+
     try {
-      await joinRequestsAPI.denyJoinRequest(group.id, requestId, { comment });
-      toast.success('Join request denied successfully');
-      loadGroupData();
+      setResendingInvitationId(invitation.id);
+      const response = await groupsAPI.resendInvitation(group.id, invitation.id, { expires_in_days: expiresInDays });
+      queryCache.setData<GroupInvitation[]>(queryKeys.invitations(group.id), (current = []) =>
+        current.map((i) => (i.id === invitation.id ? response.data : i))
+      );
+      toast.success(`Invitation resent to ${invitation.email}`);
     } catch (error: any) {
-      console.error('Failed to deny join request:', error);
-      toast.error(error.userMessage || 'Failed to deny join request');
+      console.error('Failed to resend invitation:', error);
+      toast.error(error.userMessage || 'Failed to resend invitation');
+    } finally {
+      setResendingInvitationId(null);
     }
   };
 
+  const handleJoinRequestReviewed = (decision: ReviewDecision) => {
+    if (!group) return;
+
+    setReviewingRequest(null);
+    invalidateReviewedRequests(group.id, decision === 'approved');
+  };
+
   const getRoleBadgeClass = (role: string) => {
     switch (role) {
       case 'administrator':
@@ -196,6 +474,22 @@ const GroupDetail: React.FC = () => {
     }
   };
 
+  // Invitations only record user ids; show the member's email where we have it
+  const getUserLabel = (userId: string) =>
+    members.find((m) => m.user_id === userId)?.user_email || userId;
+
+  const reviewers = Array.from(new Set(joinRequestHistory.map((r) => r.reviewed_by).filter((id): id is string => !!id)))
+    .map((id) => ({ id, label: getUserLabel(id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const activityActors = members
+    .map((m) => ({ id: m.user_id, label: m.user_email }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const inviters = Array.from(new Set(invitations.map((i) => i.invited_by)))
+    .map((id) => ({ id, label: getUserLabel(id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'pending':
@@ -206,14 +500,13 @@ const GroupDetail: React.FC = () => {
         return 'bg-red-100 text-red-800';
       case 'revoked':
         return 'bg-gray-100 text-gray-800';
+      case 'declined':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
-  const canManageGroup = group?.membership?.role === 'administrator' || group?.membership?.role === 'manager';
-  const canAdminGroup = group?.membership?.role === 'administrator';
-
   if (loading) {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -273,7 +566,7 @@ const GroupDetail: React.FC = () => {
                 <p className="mt-2 text-gray-600">{group.description}</p>
               )}
               <div className="mt-2 text-sm text-gray-500">
-                Created {format(new Date(group.created_at), 'MMM d, yyyy')} • {members.length} members
+                Created {format(new Date(group.created_at), 'MMM d, yyyy')} • {memberCount} members
               </div>
             </div>
             
@@ -313,6 +606,30 @@ const GroupDetail: React.FC = () => {
                           )}
                         </Menu.Item>
                       )}
+                      {canAdminGroup && (
+                        <Menu.Item>
+                          {({ active }) => (
+                            <button
+                              onClick={() => setShowTransferModal(true)}
+                              className={`${active ? 'bg-gray-100' : ''} flex w-full items-center px-4 py-2 text-sm text-gray-700`}
+                            >
+                              <ShieldCheckIcon className="mr-3 h-4 w-4" />
+                              Transfer Ownership
+                            </button>
+                          )}
+                        </Menu.Item>
+                      )}
+                      <Menu.Item>
+                        {({ active }) => (
+                          <button
+                            onClick={() => setShowLeaveModal(true)}
+                            className={`${active ? 'bg-gray-100' : ''} flex w-full items-center px-4 py-2 text-sm text-gray-700`}
+                          >
+                            <ArrowRightOnRectangleIcon className="mr-3 h-4 w-4" />
+                            Leave Group
+                          </button>
+                        )}
+                      </Menu.Item>
                       {canAdminGroup && (
                         <Menu.Item>
                           {({ active }) => (
@@ -331,6 +648,12 @@ const GroupDetail: React.FC = () => {
                 </Menu>
               </div>
             )}
+            {!canManageGroup && group.membership && (
+              <button onClick={() => setShowLeaveModal(true)} className="btn-secondary">
+                <ArrowRightOnRectangleIcon className="h-4 w-4 mr-2" />
+                Leave Group
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -358,6 +681,13 @@ const GroupDetail: React.FC = () => {
                 >
                   Copy Link
                 </button>
+                <button
+                  onClick={() => setSharingJoinLink(true)}
+                  className="inline-flex items-center px-3 py-2 border border-blue-300 shadow-sm text-sm font-medium rounded text-blue-700 bg-white hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  <QrCodeIcon className="mr-1 h-4 w-4" />
+                  QR / Badge
+                </button>
               </div>
               <p className="mt-2 text-sm text-blue-600">
                 Anyone with this link can request to join this public group.
@@ -367,6 +697,15 @@ const GroupDetail: React.FC = () => {
         </div>
       )}
 
+      {canManageGroup && (
+        <JoinLinksPanel
+          groupId={group.id}
+          groupName={group.name}
+          canAdmin={canAdminGroup}
+          linkBase={getJoinLinkBase()}
+        />
+      )}
+
       {/* Tabs */}
       <div className="bg-white shadow rounded-lg">
         <div className="border-b border-gray-200">
@@ -380,7 +719,7 @@ const GroupDetail: React.FC = () => {
               } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center`}
             >
               <UsersIcon className="h-4 w-4 mr-2" />
-              Members ({members.length})
+              Members ({memberCount})
             </button>
             {canManageGroup && (
               <button
@@ -408,244 +747,471 @@ const GroupDetail: React.FC = () => {
                 Join Requests ({joinRequests.length})
               </button>
             )}
+            {canManageGroup && (
+              <button
+                onClick={() => setActiveTab('activity')}
+                className={`${
+                  activeTab === 'activity'
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm flex items-center`}
+              >
+                <ClockIcon className="h-4 w-4 mr-2" />
+                Activity
+              </button>
+            )}
           </nav>
         </div>
 
         <div className="px-6 py-4">
           {activeTab === 'members' && (
-            <div className="space-y-4">
-              {members.map((member) => (
-                <div key={member.user_id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                  <div className="flex items-center">
-                    <div className="flex-shrink-0">
-                      <div className="h-10 w-10 rounded-full bg-primary-500 flex items-center justify-center">
-                        <span className="text-sm font-medium text-white">
-                          {getUserInitials(member.user_email)}
-                        </span>
+            <div>
+              <MemberFilters
+                filters={memberFilters}
+                onChange={updateFilters}
+                onClear={clearFilters}
+                isFiltered={isFiltered}
+                shownCount={filteredMembers.length}
+                totalCount={displayedMembers.length}
+                actions={canManageGroup && (
+                  <ExportMenu onExport={handleExportMembers} disabled={exporting} />
+                )}
+              />
+              {selectedMembers.length > 0 && (
+                <MemberBulkActions
+                  selectedCount={selectedMembers.length}
+                  canAdmin={canAdminGroup}
+                  progress={bulkProgress}
+                  onChangeRole={handleBulkUpdateRole}
+                  onRemove={handleBulkRemove}
+                  onExport={handleBulkExport}
+                  onClear={() => setSelectedMemberIds(new Set())}
+                />
+              )}
+              {selectableMembers.length > 0 && (
+                <label className="mb-3 flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={allMatchingSelected}
+                    onChange={toggleAllMatchingSelected}
+                    disabled={!!bulkProgress}
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2">
+                    {isFiltered
+                      ? `Select all ${selectableMembers.length} matching members`
+                      : `Select all ${selectableMembers.length} members`}
+                  </span>
+                </label>
+              )}
+              {filteredMembers.length === 0 && isFiltered && (
+                <div className="text-center py-6">
+                  <UsersIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No matching members</h3>
+                  <p className="mt-1 text-sm text-gray-500">Try a different search or clear the filters.</p>
+                </div>
+              )}
+              <VirtualList
+                items={filteredMembers}
+                getKey={(member) => member.user_id}
+                ariaLabel="Group members"
+                renderItem={(member) => (
+                  <div
+                    className={`flex items-center justify-between p-4 border border-gray-200 rounded-lg ${
+                      pendingActions[member.user_id] === 'remove' ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center">
+                      {canManageGroup && (
+                        <input
+                          type="checkbox"
+                          checked={selectedMemberIds.has(member.user_id)}
+                          onChange={() => toggleMemberSelected(member.user_id)}
+                          disabled={!isSelectable(member) || !!bulkProgress}
+                          aria-label={`Select ${member.user_email}`}
+                          className="mr-4 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 disabled:opacity-30"
+                        />
+                      )}
+                      <div className="flex-shrink-0">
+                        <div className="h-10 w-10 rounded-full bg-primary-500 flex items-center justify-center">
+                          <span className="text-sm font-medium text-white">
+                            {getUserInitials(member.user_email)}
+                          </span>
+                        </div>
                       </div>
-                    </div>
-                    <div className="ml-4">
-                      <div className="text-sm font-medium text-gray-900">{member.user_email}</div>
-                      <div className="text-sm text-gray-500">
-                        Joined {format(new Date(member.joined_at), 'MMM d, yyyy')}
+                      <div className="ml-4">
+                        <div className="text-sm font-medium text-gray-900">{member.user_email}</div>
+                        <div className="text-sm text-gray-500">
+                          Joined {format(new Date(member.joined_at), 'MMM d, yyyy')}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeClass(member.role)}`}>
-                      {member.role}
-                    </span>
-                    {canManageGroup && member.user_id !== user?.id && (
-                      <Menu as="div" className="relative">
-                        <Menu.Button className="text-gray-400 hover:text-gray-600">
-                          <EllipsisVerticalIcon className="h-4 w-4" />
-                        </Menu.Button>
-                        <Transition
-                          enter="transition ease-out duration-100"
-                          enterFrom="transform opacity-0 scale-95"
-                          enterTo="transform opacity-100 scale-100"
-                          leave="transition ease-in duration-75"
-                          leaveFrom="transform opacity-100 scale-100"
-                          leaveTo="transform opacity-0 scale-95"
+                    <div className="flex items-center space-x-3">
+                      {pendingActions[member.user_id] && (
+                        <span className="inline-flex items-center text-xs text-gray-500">
+                          <LoadingSpinner size="small" className="mr-1" />
+                          {pendingActions[member.user_id] === 'remove' ? 'Removing...' : 'Updating...'}
+                        </span>
+                      )}
+                      {pendingActions[member.user_id] === 'remove' && (
+                        <button
+                          onClick={() => undoRemoval(member.user_id)}
+                          className="text-primary-600 hover:text-primary-500 text-sm"
                         >
-                          <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
-                            {canAdminGroup && member.role !== 'administrator' && (
-                              <Menu.Item>
-                                {({ active }) => (
-                                  <button
-                                    onClick={() => handleUpdateRole(member.user_id, 'administrator')}
-                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
-                                  >
-                                    Make Administrator
-                                  </button>
-                                )}
-                              </Menu.Item>
-                            )}
-                            {member.role !== 'manager' && (
-                              <Menu.Item>
-                                {({ active }) => (
-                                  <button
-                                    onClick={() => handleUpdateRole(member.user_id, 'manager')}
-                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
-                                  >
-                                    Make Manager
-                                  </button>
-                                )}
-                              </Menu.Item>
-                            )}
-                            {member.role !== 'member' && (
+                          Undo
+                        </button>
+                      )}
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeClass(member.role)}`}>
+                        {member.role}
+                      </span>
+                      {canManageGroup && member.user_id !== user?.id && !pendingActions[member.user_id] && (
+                        <Menu as="div" className="relative">
+                          <Menu.Button className="text-gray-400 hover:text-gray-600">
+                            <EllipsisVerticalIcon className="h-4 w-4" />
+                          </Menu.Button>
+                          <Transition
+                            enter="transition ease-out duration-100"
+                            enterFrom="transform opacity-0 scale-95"
+                            enterTo="transform opacity-100 scale-100"
+                            leave="transition ease-in duration-75"
+                            leaveFrom="transform opacity-100 scale-100"
+                            leaveTo="transform opacity-0 scale-95"
+                          >
+                            <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+                              {canAdminGroup && member.role !== 'administrator' && (
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleUpdateRole(member.user_id, 'administrator')}
+                                      className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                                    >
+                                      Make Administrator
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              )}
+                              {member.role !== 'manager' && (
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleUpdateRole(member.user_id, 'manager')}
+                                      className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                                    >
+                                      Make Manager
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              )}
+                              {member.role !== 'member' && (
+                                <Menu.Item>
+                                  {({ active }) => (
+                                    <button
+                                      onClick={() => handleUpdateRole(member.user_id, 'member')}
+                                      className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                                    >
+                                      Make Member
+                                    </button>
+                                  )}
+                                </Menu.Item>
+                              )}
                               <Menu.Item>
                                 {({ active }) => (
                                   <button
-                                    onClick={() => handleUpdateRole(member.user_id, 'member')}
-                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                                    onClick={() => handleRemoveMember(member.user_id)}
+                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-red-700 w-full text-left`}
                                   >
-                                    Make Member
+                                    Remove from Group
                                   </button>
                                 )}
                               </Menu.Item>
-                            )}
-                            <Menu.Item>
-                              {({ active }) => (
-                                <button
-                                  onClick={() => handleRemoveMember(member.user_id)}
-                                  className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-red-700 w-full text-left`}
-                                >
-                                  Remove from Group
-                                </button>
-                              )}
-                            </Menu.Item>
-                          </Menu.Items>
-                        </Transition>
-                      </Menu>
-                    )}
+                            </Menu.Items>
+                          </Transition>
+                        </Menu>
+                      )}
+                    </div>
                   </div>
+                )}
+              />
+              {membersQuery.hasMore && (
+                <div className="mt-4 text-center">
+                  <p className="text-sm text-gray-500 mb-2">
+                    {membersQuery.total !== undefined
+                      ? `Showing ${members.length} of ${membersQuery.total} members`
+                      : `Showing ${members.length} members`}
+                    {isFiltered && ' (filters apply to loaded members only)'}
+                  </p>
+                  <button
+                    onClick={handleLoadMoreMembers}
+                    disabled={membersQuery.isLoadingMore}
+                    className="btn-secondary text-sm disabled:opacity-50"
+                  >
+                    {membersQuery.isLoadingMore ? 'Loading...' : 'Load more'}
+                  </button>
                 </div>
-              ))}
+              )}
             </div>
           )}
 
           {activeTab === 'invitations' && (
             <div className="space-y-4">
+              {invitations.length > 0 && (
+                <InvitationFilters
+                  filters={invitationFilters}
+                  onChange={updateInvitationFilters}
+                  onClear={clearInvitationFilters}
+                  isFiltered={isInvitationFiltered}
+                  inviters={inviters}
+                  shownCount={filteredInvitations.length}
+                  totalCount={invitations.length}
+                  actions={<ExportMenu onExport={handleExportInvitations} />}
+                />
+              )}
+              {invitations.length > 0 && filteredInvitations.length === 0 && (
+                <div className="text-center py-6">
+                  <EnvelopeIcon className="mx-auto h-12 w-12 text-gray-400" />
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No matching invitations</h3>
+                  <p className="mt-1 text-sm text-gray-500">Try a different date range or clear the filters.</p>
+                </div>
+              )}
               {invitations.length === 0 ? (
                 <div className="text-center py-6">
                   <EnvelopeIcon className="mx-auto h-12 w-12 text-gray-400" />
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">No pending invitations</h3>
+                  <h3 className="mt-2 text-sm font-medium text-gray-900">No invitations</h3>
                   <p className="mt-1 text-sm text-gray-500">Invite new members to get started.</p>
                 </div>
               ) : (
-                invitations.map((invitation) => (
-                  <div key={invitation.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                    <div className="flex-1">
-                      <div className="text-sm font-medium text-gray-900">{invitation.email}</div>
-                      <div className="text-sm text-gray-500">
-                        Invited {format(new Date(invitation.created_at), 'MMM d, yyyy')} • 
-                        Expires {format(new Date(invitation.expires_at), 'MMM d, yyyy')}
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-3">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeClass(invitation.role)}`}>
-                        {invitation.role}
-                      </span>
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(invitation.status)}`}>
-                        {invitation.status}
-                      </span>
-                      {invitation.status === 'pending' && (
+                <VirtualList
+                  items={filteredInvitations}
+                  getKey={(invitation) => invitation.id}
+                  ariaLabel="Group invitations"
+                  renderItem={(invitation) => (
+                    <div className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                      <div className="flex-1">
                         <button
-                          onClick={() => handleRevokeInvitation(invitation.id)}
-                          className="text-red-600 hover:text-red-500 text-sm"
+                          type="button"
+                          onClick={() => setDetailInvitation(invitation)}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-600 text-left"
                         >
-                          Revoke
+                          {invitation.email}
                         </button>
-                      )}
+                        <div className="text-sm text-gray-500">
+                          Invited {format(new Date(invitation.created_at), 'MMM d, yyyy')} by {getUserLabel(invitation.invited_by)} • 
+                          {isLapsed(invitation) ? 'Expired' : 'Expires'} {format(new Date(invitation.expires_at), 'MMM d, yyyy')}
+                        </div>
+                        {invitation.status === 'declined' && invitation.decline_reason && (
+                          <div className="mt-1 text-sm text-gray-600">
+                            Declined: {invitation.decline_reason}
+                          </div>
+                        )}
+                        {invitation.metadata?.message && (
+                          <div className="mt-1 text-sm text-gray-600 italic line-clamp-2">
+                            "{invitation.metadata.message}"
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getRoleBadgeClass(invitation.role)}`}>
+                          {invitation.role}
+                        </span>
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(effectiveStatus(invitation))}`}>
+                          {effectiveStatus(invitation)}
+                        </span>
+                        {canResend(invitation) && (
+                          <Menu as="div" className="relative">
+                            <Menu.Button
+                              disabled={resendingInvitationId === invitation.id}
+                              className="text-primary-600 hover:text-primary-500 text-sm disabled:opacity-50"
+                            >
+                              {resendingInvitationId === invitation.id
+                                ? 'Resending...'
+                                : isLapsed(invitation) ? 'Resend' : 'Resend/Extend'}
+                            </Menu.Button>
+                            <Transition
+                              enter="transition ease-out duration-100"
+                              enterFrom="transform opacity-0 scale-95"
+                              enterTo="transform opacity-100 scale-100"
+                              leave="transition ease-in duration-75"
+                              leaveFrom="transform opacity-100 scale-100"
+                              leaveTo="transform opacity-0 scale-95"
+                            >
+                              <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+                                {EXPIRY_OPTIONS.map((days) => (
+                                  <Menu.Item key={days}>
+                                    {({ active }) => (
+                                      <button
+                                        onClick={() => handleResendInvitation(invitation, days)}
+                                        className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+                                      >
+                                        Valid for {expiryLabel(days)}
+                                      </button>
+                                    )}
+                                  </Menu.Item>
+                                ))}
+                              </Menu.Items>
+                            </Transition>
+                          </Menu>
+                        )}
+                        {invitation.status === 'pending' && (
+                          <button
+                            onClick={() => handleRevokeInvitation(invitation.id)}
+                            className="text-red-600 hover:text-red-500 text-sm"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))
+                  )}
+                />
               )}
             </div>
           )}
 
           {activeTab === 'requests' && (
             <div className="space-y-4">
-              {joinRequests.length === 0 ? (
+              <div className="flex items-center justify-between">
+                <div className="inline-flex rounded-md shadow-sm" role="group">
+                  {(['pending', 'history'] as const).map((view) => (
+                    <button
+                      key={view}
+                      type="button"
+                      onClick={() => setRequestsView(view)}
+                      aria-pressed={requestsView === view}
+                      className={`px-3 py-1.5 text-sm font-medium border border-gray-300 first:rounded-l-md last:rounded-r-md -ml-px first:ml-0 ${
+                        requestsView === view
+                          ? 'bg-primary-50 text-primary-700 border-primary-300 z-10'
+                          : 'bg-white text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {view === 'pending' ? 'Pending' : 'History'}
+                    </button>
+                  ))}
+                </div>
+                <ExportMenu onExport={handleExportJoinRequests} disabled={exporting} label="Export History" />
+              </div>
+              {requestsView === 'history' && (
+                <JoinRequestFilters
+                  filters={joinRequestFilters}
+                  onChange={updateJoinRequestFilters}
+                  onClear={clearJoinRequestFilters}
+                  isFiltered={isJoinRequestFiltered}
+                  reviewers={reviewers}
+                  shownCount={filteredJoinRequestHistory.length}
+                  totalCount={joinRequestHistory.length}
+                />
+              )}
+              {requestsView === 'pending' && selectedRequests.length > 0 && (
+                <JoinRequestBulkActions
+                  selectedCount={selectedRequests.length}
+                  progress={bulkProgress}
+                  onReview={setBulkReviewDecision}
+                  onClear={() => setSelectedRequestIds(new Set())}
+                />
+              )}
+              {requestsView === 'pending' && pendingRequests.length > 1 && (
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={allRequestsSelected}
+                    onChange={toggleAllRequestsSelected}
+                    disabled={!!bulkProgress}
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="ml-2">Select all {pendingRequests.length} pending requests</span>
+                </label>
+              )}
+              {requestsView === 'history' && joinRequestHistoryQuery.isLoading ? (
+                <LoadingSpinner size="medium" className="py-6" />
+              ) : displayedRequests.length === 0 ? (
                 <div className="text-center py-6">
                   <InboxIcon className="mx-auto h-12 w-12 text-gray-400" />
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">No join requests</h3>
-                  <p className="mt-1 text-sm text-gray-500">No one has requested to join this group yet.</p>
+                  {requestsView === 'history' && isJoinRequestFiltered ? (
+                    <>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No matching join requests</h3>
+                      <p className="mt-1 text-sm text-gray-500">Try different filters or clear them.</p>
+                    </>
+                  ) : requestsView === 'history' ? (
+                    <>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No join requests</h3>
+                      <p className="mt-1 text-sm text-gray-500">No one has requested to join this group yet.</p>
+                    </>
+                  ) : (
+                    <>
+                      <h3 className="mt-2 text-sm font-medium text-gray-900">No pending join requests</h3>
+                      <p className="mt-1 text-sm text-gray-500">Past requests are listed under History.</p>
+                    </>
+                  )}
                 </div>
               ) : (
-                joinRequests.map((request) => (
-                  <div key={request.id} className="flex items-start justify-between p-4 border border-gray-200 rounded-lg">
-                    <div className="flex-1">
-                      <div className="flex items-center">
-                        <div className="text-sm font-medium text-gray-900">{request.user_name || request.user_email}</div>
-                        <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(request.status)}`}>
-                          {request.status}
-                        </span>
-                      </div>
-                      <div className="text-sm text-gray-500 mt-1">{request.user_email}</div>
-                      {request.message && (
-                        <div className="mt-2 text-sm text-gray-700 bg-gray-50 p-2 rounded">
-                          <strong>Message:</strong> {request.message}
-                        </div>
+                <VirtualList
+                  items={displayedRequests}
+                  getKey={(request) => request.id}
+                  ariaLabel="Join requests"
+                  renderItem={(request) => (
+                    <div className="flex items-start justify-between p-4 border border-gray-200 rounded-lg">
+                      {requestsView === 'pending' && request.status === 'pending' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedRequestIds.has(request.id)}
+                          onChange={() => toggleRequestSelected(request.id)}
+                          disabled={!!bulkProgress}
+                          aria-label={`Select request from ${request.user_email}`}
+                          className="mt-1 mr-4 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
                       )}
-                      <div className="text-sm text-gray-500 mt-2">
-                        Requested {format(new Date(request.created_at), 'MMM d, yyyy')}
+                      <div className="flex-1">
+                        <div className="flex items-center">
+                          <div className="text-sm font-medium text-gray-900">{request.user_name || request.user_email}</div>
+                          <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(request.status)}`}>
+                            {request.status}
+                          </span>
+                        </div>
+                        <div className="text-sm text-gray-500 mt-1">{request.user_email}</div>
+                        {request.message && (
+                          <div className="mt-2 text-sm text-gray-700 bg-gray-50 p-2 rounded">
+                            <strong>Message:</strong> {request.message}
+                          </div>
+                        )}
+                        <div className="text-sm text-gray-500 mt-2">
+                          Requested {format(new Date(request.created_at), 'MMM d, yyyy')}
+                        </div>
+                        {request.reviewed_at && (
+                          <div className="text-sm text-gray-500">
+                            {request.status === 'approved' ? 'Approved' : 'Denied'} {format(new Date(request.reviewed_at), 'MMM d, yyyy')}
+                            {request.reviewed_by && ` by ${getUserLabel(request.reviewed_by)}`}
+                            {request.reviewer_comment && (
+                              <div className="mt-1 text-sm text-gray-700 bg-gray-50 p-2 rounded">
+                                <strong>Comment:</strong> {request.reviewer_comment}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
-                      {request.reviewed_at && (
-                        <div className="text-sm text-gray-500">
-                          {request.status === 'approved' ? 'Approved' : 'Denied'} {format(new Date(request.reviewed_at), 'MMM d, yyyy')}
-                          {request.reviewer_comment && (
-                            <div className="mt-1 text-sm text-gray-700 bg-gray-50 p-2 rounded">
-                              <strong>Comment:</strong> {request.reviewer_comment}
-                            </div>
-                          )}
+                      {request.status === 'pending' && (
+                        <div className="flex items-center space-x-2 ml-4">
+                          <button
+                            onClick={() => setReviewingRequest(request)}
+                            className="btn-primary text-sm"
+                          >
+                            Review
+                          </button>
                         </div>
                       )}
                     </div>
-                    {request.status === 'pending' && (
-                      <div className="flex items-center space-x-2 ml-4">
-                        <Menu as="div" className="relative">
-                          <Menu.Button className="btn-success text-sm">
-                            Approve
-                          </Menu.Button>
-                          <Transition
-                            enter="transition ease-out duration-100"
-                            enterFrom="transform opacity-0 scale-95"
-                            enterTo="transform opacity-100 scale-100"
-                            leave="transition ease-in duration-75"
-                            leaveFrom="transform opacity-100 scale-100"
-                            leaveTo="transform opacity-0 scale-95"
-                          >
-                            <Menu.Items className="absolute right-0 z-10 mt-2 w-48 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
-                              <Menu.Item>
-                                {({ active }) => (
-                                  <button
-                                    onClick={() => handleApproveJoinRequest(request.id, 'member')}
-                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
-                                  >
-                                    Approve as Member
-                                  </button>
-                                )}
-                              </Menu.Item>
-                              <Menu.Item>
-                                {({ active }) => (
-                                  <button
-                                    onClick={() => handleApproveJoinRequest(request.id, 'manager')}
-                                    className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
-                                  >
-                                    Approve as Manager
-                                  </button>
-                                )}
-                              </Menu.Item>
-                              {canAdminGroup && (
-                                <Menu.Item>
-                                  {({ active }) => (
-                                    <button
-                                      onClick={() => handleApproveJoinRequest(request.id, 'administrator')}
-                                      className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
-                                    >
-                                      Approve as Administrator
-                                    </button>
-                                  )}
-                                </Menu.Item>
-                              )}
-                            </Menu.Items>
-                          </Transition>
-                        </Menu>
-                        <button
-                          onClick={() => handleDenyJoinRequest(request.id)}
-                          className="btn-danger text-sm"
-                        >
-                          Deny
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                ))
+                  )}
+                />
               )}
             </div>
           )}
+
+          {activeTab === 'activity' && canManageGroup && (
+            <GroupActivityLog
+              groupId={group.id}
+              groupName={group.name}
+              actors={activityActors}
+              getUserLabel={getUserLabel}
+            />
+          )}
         </div>
       </div>
 
@@ -655,9 +1221,76 @@ const GroupDetail: React.FC = () => {
         onClose={() => setShowInviteModal(false)}
         onSuccess={() => {
           setShowInviteModal(false);
-          loadGroupData();
+          queryCache.invalidate(queryKeys.invitations(group.id));
         }}
+        onBulkComplete={(results) => {
+          setShowInviteModal(false);
+          queryCache.invalidate(queryKeys.invitations(group.id));
+          setBulkResults({ title: 'Bulk Invitations', results });
+        }}
+        groupId={group.id}
+        canAdmin={canAdminGroup}
+      />
+
+      <JoinRequestBulkReviewModal
+        decision={bulkReviewDecision}
+        count={selectedRequests.length}
+        canAdmin={canAdminGroup}
+        onClose={() => setBulkReviewDecision(null)}
+        onConfirm={handleBulkReview}
+      />
+
+      <JoinRequestReviewModal
+        onClose={() => setReviewingRequest(null)}
+        onReviewed={handleJoinRequestReviewed}
         groupId={group.id}
+        request={reviewingRequest}
+        canAdmin={canAdminGroup}
+      />
+
+      <InvitationDetailDrawer
+        invitation={detailInvitation}
+        onClose={() => setDetailInvitation(null)}
+        getUserLabel={getUserLabel}
+        getStatusBadgeClass={getStatusBadgeClass}
+      />
+
+      {group.visibility === 'public' && (
+        <ShareJoinLinkModal
+          isOpen={sharingJoinLink}
+          onClose={() => setSharingJoinLink(false)}
+          url={`${getJoinLinkBase()}/join-group/${group.id}`}
+          groupName={group.name}
+        />
+      )}
+
+      {canAdminGroup && (
+        <TransferOwnershipModal
+          isOpen={showTransferModal}
+          onClose={() => setShowTransferModal(false)}
+          group={group}
+          members={members}
+          hasMoreMembers={membersQuery.hasMore}
+          currentUserId={user?.id}
+        />
+      )}
+
+      <LeaveGroupModal
+        group={showLeaveModal ? group : null}
+        currentUserId={user?.id}
+        onClose={() => setShowLeaveModal(false)}
+        onLeft={() => navigate('/detail')}
+        onTransferOwnership={canAdminGroup ? () => {
+          setShowLeaveModal(false);
+          setShowTransferModal(true);
+        } : undefined}
+      />
+
+      <BulkResultsModal
+        isOpen={!!bulkResults}
+        onClose={() => setBulkResults(null)}
+        title={bulkResults?.title || ''}
+        results={bulkResults?.results || []}
       />
 
       <EditGroupModal
@@ -665,7 +1298,8 @@ const GroupDetail: React.FC = () => {
         onClose={() => setShowEditModal(false)}
         onSuccess={() => {
           setShowEditModal(false);
-          loadGroupData();
+          queryCache.invalidate(queryKeys.group(group.id));
+          queryCache.invalidate(queryKeys.groupLists());
         }}
         group={group}
       />
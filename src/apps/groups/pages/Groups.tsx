@@ -1,8 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { groupsAPI, Group } from '../../../shared/utils/api';
+import { useAuth } from '../../../shared/contexts/AuthContext';
+import { Group } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { queryKeys, usePagedGroupsList } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
 import CreateGroupModal from '../components/CreateGroupModal';
+import LeaveGroupModal from '../components/LeaveGroupModal';
 import {
   PlusIcon,
   UserGroupIcon,
@@ -13,34 +18,34 @@ import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 const Groups: React.FC = () => {
-  const [groups, setGroups] = useState<Group[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [leavingGroup, setLeavingGroup] = useState<Group | null>(null);
   const [filter, setFilter] = useState<'all' | 'my'>('all');
+  const groupsQuery = usePagedGroupsList(filter === 'my');
+  const groups = groupsQuery.items;
+  const loading = groupsQuery.isLoading;
 
-  useEffect(() => {
-    loadGroups();
-  }, [filter]);
+  useQueryError(groupsQuery.error, (error) => {
+    console.error('Failed to load groups:', error);
+    toast.error(error.userMessage || 'Failed to load groups');
+  });
 
-  const loadGroups = async () => {
+  const handleGroupCreated = () => {
+    setShowCreateModal(false);
+    queryCache.invalidate(queryKeys.groupLists());
+    toast.success('Group created successfully!');
+  };
+
+  const handleLoadMore = async () => {
     try {
-      setLoading(true);
-      const response = await groupsAPI.listGroups(filter === 'my');
-      setGroups(response.data.groups);
+      await groupsQuery.loadMore();
     } catch (error: any) {
       console.error('Failed to load groups:', error);
       toast.error(error.userMessage || 'Failed to load groups');
-    } finally {
-      setLoading(false);
     }
   };
 
-  const handleGroupCreated = () => {
-    setShowCreateModal(false);
-    loadGroups();
-    toast.success('Group created successfully!');
-  };
-
   const getRoleBadgeClass = (role?: string) => {
     switch (role) {
       case 'administrator':
@@ -181,13 +186,18 @@ const Groups: React.FC = () => {
                   <span>Created {format(new Date(group.created_at), 'MMM d, yyyy')}</span>
                 </div>
 
-                <div className="mt-6">
+                <div className="mt-6 flex gap-2">
                   <Link
                     to={`/detail/${group.id}`}
-                    className="w-full btn-primary text-center"
+                    className="flex-1 btn-primary text-center"
                   >
                     View Details
                   </Link>
+                  {group.membership && (
+                    <button onClick={() => setLeavingGroup(group)} className="btn-secondary">
+                      Leave
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -195,12 +205,36 @@ const Groups: React.FC = () => {
         </div>
       )}
 
+      {groupsQuery.hasMore && (
+        <div className="mt-8 text-center">
+          {groupsQuery.total !== undefined && (
+            <p className="text-sm text-gray-500 mb-2">
+              Showing {groups.length} of {groupsQuery.total} groups
+            </p>
+          )}
+          <button
+            onClick={handleLoadMore}
+            disabled={groupsQuery.isLoadingMore}
+            className="btn-secondary text-sm disabled:opacity-50"
+          >
+            {groupsQuery.isLoadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+
       {/* Create Group Modal */}
       <CreateGroupModal
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
         onSuccess={handleGroupCreated}
       />
+
+      <LeaveGroupModal
+        group={leavingGroup}
+        currentUserId={user?.id}
+        onClose={() => setLeavingGroup(null)}
+        onLeft={() => setLeavingGroup(null)}
+      />
     </div>
   );
 };
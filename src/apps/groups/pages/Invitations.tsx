@@ -1,6 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { groupsAPI, GroupInvitation } from '../../../shared/utils/api';
+import { usePendingInvitations } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import { useLingeringValue } from '../../../shared/hooks/useLingeringValue';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import DeclineInvitationModal from '../components/DeclineInvitationModal';
+import { invalidateInvitationResponse } from '../invitations';
 import {
   InboxIcon,
   ClockIcon,
@@ -11,31 +16,22 @@ import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 
 const Invitations: React.FC = () => {
-  const [invitations, setInvitations] = useState<GroupInvitation[]>([]);
-  const [loading, setLoading] = useState(true);
+  const invitationsQuery = usePendingInvitations();
+  const invitations = invitationsQuery.data || [];
+  const loading = invitationsQuery.isLoading;
+  const [decliningInvitation, setDecliningInvitation] = useState<GroupInvitation | null>(null);
+  const [declinedInvitation, clearDeclinedInvitation] = useLingeringValue(decliningInvitation);
 
-  useEffect(() => {
-    loadInvitations();
-  }, []);
-
-  const loadInvitations = async () => {
-    try {
-      setLoading(true);
-      const response = await groupsAPI.getPendingInvitations();
-      setInvitations(response.data.invitations);
-    } catch (error: any) {
-      console.error('Failed to load invitations:', error);
-      toast.error(error.userMessage || 'Failed to load invitations');
-    } finally {
-      setLoading(false);
-    }
-  };
+  useQueryError(invitationsQuery.error, (error) => {
+    console.error('Failed to load invitations:', error);
+    toast.error(error.userMessage || 'Failed to load invitations');
+  });
 
   const acceptInvitation = async (token: string) => {
     try {
       await groupsAPI.acceptInvitation(token);
       toast.success('Invitation accepted successfully!');
-      loadInvitations(); // Refresh the list
+      invalidateInvitationResponse(true);
     } catch (error: any) {
       console.error('Failed to accept invitation:', error);
       toast.error(error.userMessage || 'Failed to accept invitation');
@@ -63,6 +59,7 @@ const Invitations: React.FC = () => {
         return <CheckCircleIcon className="h-5 w-5 text-green-500" />;
       case 'expired':
       case 'revoked':
+      case 'declined':
         return <XCircleIcon className="h-5 w-5 text-red-500" />;
       default:
         return <ClockIcon className="h-5 w-5 text-gray-500" />;
@@ -79,6 +76,8 @@ const Invitations: React.FC = () => {
         return 'Expired';
       case 'revoked':
         return 'Revoked';
+      case 'declined':
+        return 'Declined';
       default:
         return status;
     }
@@ -165,12 +164,20 @@ const Invitations: React.FC = () => {
                           {isExpired && invitation.status === 'pending' ? 'Expired' : getStatusText(invitation.status)}
                         </span>
                         {canAccept && (
-                          <button
-                            onClick={() => acceptInvitation(invitation.token)}
-                            className="btn-success text-sm"
-                          >
-                            Accept
-                          </button>
+                          <>
+                            <button
+                              onClick={() => setDecliningInvitation(invitation)}
+                              className="btn-secondary text-sm"
+                            >
+                              Decline
+                            </button>
+                            <button
+                              onClick={() => acceptInvitation(invitation.token)}
+                              className="btn-success text-sm"
+                            >
+                              Accept
+                            </button>
+                          </>
                         )}
                       </div>
                     </div>
@@ -197,6 +204,17 @@ const Invitations: React.FC = () => {
           </ul>
         </div>
       )}
+
+      <DeclineInvitationModal
+        isOpen={!!decliningInvitation}
+        onClose={() => setDecliningInvitation(null)}
+        afterLeave={clearDeclinedInvitation}
+        onSuccess={() => {
+          setDecliningInvitation(null);
+        }}
+        token={declinedInvitation?.token || ''}
+        groupName={declinedInvitation?.group?.name}
+      />
     </div>
   );
 };
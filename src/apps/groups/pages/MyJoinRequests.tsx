@@ -0,0 +1,171 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { joinRequestsAPI, JoinRequest } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { scheduleUndoable } from '../../../shared/utils/undoableActions';
+import { queryKeys, useMyJoinRequests } from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import {
+  PaperAirplaneIcon,
+  ClockIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+const MyJoinRequests: React.FC = () => {
+  const requestsQuery = useMyJoinRequests();
+  const requests = [...(requestsQuery.data || [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+  const loading = requestsQuery.isLoading;
+
+  useQueryError(requestsQuery.error, (error) => {
+    console.error('Failed to load join requests:', error);
+    toast.error(error.userMessage || 'Failed to load join requests');
+  });
+
+  // Cancellations are held back behind an undo toast; the request is hidden
+  // from the list in the meantime
+  const cancelRequest = (request: JoinRequest) => {
+    const requestsKey = queryKeys.myJoinRequests();
+    queryCache.setData<JoinRequest[]>(requestsKey, (current = []) => current.filter((r) => r.id !== request.id));
+
+    scheduleUndoable({
+      id: `cancel-join-request:${request.id}`,
+      message: `Cancelled request to join ${request.group?.name || 'the group'}`,
+      commit: () => joinRequestsAPI.cancelJoinRequest(request.id),
+      queryKeys: [requestsKey],
+      onUndo: () => queryCache.setData<JoinRequest[]>(requestsKey, (current = []) => [...current, request]),
+      onCommitted: () => queryCache.invalidate(requestsKey),
+      onError: (error: any) => {
+        console.error('Failed to cancel join request:', error);
+        toast.error(error.userMessage || 'Failed to cancel join request');
+        queryCache.invalidate(requestsKey);
+      },
+    });
+  };
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return <ClockIcon className="h-5 w-5 text-yellow-500" />;
+      case 'approved':
+        return <CheckCircleIcon className="h-5 w-5 text-green-500" />;
+      case 'denied':
+      case 'expired':
+        return <XCircleIcon className="h-5 w-5 text-red-500" />;
+      default:
+        return <ClockIcon className="h-5 w-5 text-gray-500" />;
+    }
+  };
+
+  const getStatusBadgeClass = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'approved':
+        return 'bg-green-100 text-green-800';
+      case 'denied':
+        return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-gray-100 text-gray-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <LoadingSpinner size="large" className="mt-20" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">My Join Requests</h1>
+        <p className="mt-2 text-gray-600">Track the groups you've asked to join.</p>
+      </div>
+
+      {requests.length === 0 ? (
+        <div className="text-center py-12">
+          <PaperAirplaneIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No join requests</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Requests you send to join a group will show up here.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <ul className="divide-y divide-gray-200">
+            {requests.map((request) => (
+              <li key={request.id}>
+                <div className="px-4 py-4 sm:px-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start">
+                      <div className="flex-shrink-0 mt-1">
+                        {getStatusIcon(request.status)}
+                      </div>
+                      <div className="ml-4 flex-1 min-w-0">
+                        <div className="flex items-center">
+                          <p className="text-lg font-medium text-gray-900 truncate">
+                            {request.status === 'approved' ? (
+                              <Link to={`/detail/${request.group_id}`} className="hover:text-primary-600">
+                                {request.group?.name || 'Group'}
+                              </Link>
+                            ) : (
+                              request.group?.name || 'Group'
+                            )}
+                          </p>
+                          <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(request.status)}`}>
+                            {request.status}
+                          </span>
+                        </div>
+                        {request.message && (
+                          <div className="mt-2 text-sm text-gray-700 bg-gray-50 p-2 rounded">
+                            <strong>Your message:</strong> {request.message}
+                          </div>
+                        )}
+                        <div className="mt-2 flex items-center text-sm text-gray-500">
+                          <ClockIcon className="flex-shrink-0 mr-1.5 h-4 w-4" />
+                          <span>
+                            Requested {format(new Date(request.created_at), 'MMM d, yyyy')}
+                            {request.status === 'pending' && request.expires_at &&
+                              ` • Expires ${format(new Date(request.expires_at), 'MMM d, yyyy')}`}
+                            {request.reviewed_at &&
+                              ` • ${request.status === 'approved' ? 'Approved' : 'Denied'} ${format(new Date(request.reviewed_at), 'MMM d, yyyy')}`}
+                          </span>
+                        </div>
+                        {request.reviewer_comment && (
+                          <div className="mt-2 text-sm text-gray-700 bg-gray-50 p-2 rounded">
+                            <strong>Reviewer comment:</strong> {request.reviewer_comment}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    {request.status === 'pending' && (
+                      <button
+                        onClick={() => cancelRequest(request)}
+                        className="ml-4 btn-secondary text-sm"
+                      >
+                        Cancel Request
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyJoinRequests;
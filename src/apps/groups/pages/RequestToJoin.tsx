@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../../shared/contexts/AuthContext';
 import { joinRequestsAPI, groupsAPI } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { queryKeys } from '../../../shared/hooks/useGroupsQueries';
 import LoadingSpinner from '../../../shared/components/LoadingSpinner';
 import {
   UserGroupIcon,
@@ -84,7 +86,8 @@ const RequestToJoin: React.FC = () => {
       }
       
       toast.success('Join request submitted successfully!');
-      navigate('/dashboard');
+      queryCache.invalidate(queryKeys.myJoinRequests());
+      navigate('/join-requests');
     } catch (error: any) {
       console.error('Failed to submit join request:', error);
       if (error.response?.data?.message) {
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { groupsAPI, Group, GroupInvitation, JoinRequest } from '../../../shared/utils/api';
+import { queryCache } from '../../../shared/utils/queryCache';
+import { scheduleUndoable } from '../../../shared/utils/undoableActions';
+import { runWithConcurrency } from '../../../shared/utils/concurrency';
+import {
+  queryKeys,
+  canManage,
+  useGroupsList,
+  usePendingReviews,
+  useManagedInvitations,
+  ManagedGroupsData,
+} from '../../../shared/hooks/useGroupsQueries';
+import { useQueryError } from '../../../shared/hooks/useQuery';
+import LoadingSpinner from '../../../shared/components/LoadingSpinner';
+import BulkResultsModal, { BulkResult } from '../../../shared/components/BulkResultsModal';
+import JoinRequestBulkActions from '../components/JoinRequestBulkActions';
+import JoinRequestBulkReviewModal from '../components/JoinRequestBulkReviewModal';
+import JoinRequestReviewModal from '../components/JoinRequestReviewModal';
+import { MemberRole } from '../hooks/useMemberFilters';
+import { ReviewDecision, invalidateReviewedRequests, bulkReviewAcrossGroups } from '../joinRequests';
+import { DEFAULT_EXPIRY_DAYS, expiryLabel, isLapsed, isStale } from '../invitations';
+import { InboxStackIcon, ClockIcon, EnvelopeIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+
+interface InboxSection {
+  group: Group;
+  requests: JoinRequest[];
+  invitations: GroupInvitation[];
+}
+
+// Pending join requests and expiring invitations from every group the user
+// manages, grouped by group
+const ReviewInbox: React.FC = () => {
+  const groupsQuery = useGroupsList(true);
+  const reviewsQuery = usePendingReviews(groupsQuery.data);
+  const invitationsQuery = useManagedInvitations(groupsQuery.data);
+  const loading = groupsQuery.isLoading || reviewsQuery.isLoading || invitationsQuery.isLoading;
+
+  const [selectedRequestIds, setSelectedRequestIds] = useState<Set<string>>(new Set());
+  const [bulkReviewDecision, setBulkReviewDecision] = useState<ReviewDecision | null>(null);
+  const [bulkProgress, setBulkProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [bulkResults, setBulkResults] = useState<{ title: string; results: BulkResult[] } | null>(null);
+  const [reviewingRequest, setReviewingRequest] = useState<JoinRequest | null>(null);
+  const [resendingIds, setResendingIds] = useState<Set<string>>(new Set());
+
+  useQueryError(groupsQuery.error || reviewsQuery.error || invitationsQuery.error, (error) => {
+    console.error('Failed to load review inbox:', error);
+    toast.error(error.userMessage || 'Failed to load review inbox');
+  });
+
+  const managedGroups = (groupsQuery.data || []).filter(canManage);
+  const requests = reviewsQuery.data?.items || [];
+  const staleInvitations = (invitationsQuery.data?.items || []).filter(isStale);
+  // Groups whose requests or invitations could not be loaded
+  const failedGroupNames = Array.from(
+    new Set(
+      [...(reviewsQuery.data?.failedGroups || []), ...(invitationsQuery.data?.failedGroups || [])].map((g) => g.name)
+    )
+  );
+  const sections: InboxSection[] = managedGroups
+    .map((group) => ({
+      group,
+      requests: requests.filter((r) => r.group_id === group.id),
+      invitations: staleInvitations.filter((i) => i.group_id === group.id),
+    }))
+    .filter((section) => section.requests.length > 0 || section.invitations.length > 0)
+    .sort((a, b) => a.group.name.localeCompare(b.group.name));
+
+  const isAdministrator = (groupId: string) =>
+    managedGroups.find((g) => g.id === groupId)?.membership?.role === 'administrator';
+  const selectedRequests = requests.filter((r) => selectedRequestIds.has(r.id));
+
+  const toggleRequests = (ids: string[], selected: boolean) => {
+    setSelectedRequestIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (selected ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const handleBulkReview = async (options: { role?: MemberRole; comment?: string }) => {
+    const decision = bulkReviewDecision;
+    setBulkReviewDecision(null);
+    if (!decision || selectedRequests.length === 0) return;
+
+    setBulkProgress({ completed: 0, total: selectedRequests.length });
+    const results = await bulkReviewAcrossGroups(selectedRequests, decision, options, (completed, total) =>
+      setBulkProgress({ completed, total })
+    );
+    setBulkProgress(null);
+    setSelectedRequestIds(new Set(results.filter((r) => !r.ok).map((r) => r.item.id)));
+    setBulkResults({
+      title: decision === 'approved' ? 'Approve Join Requests' : 'Deny Join Requests',
+      results: results.map(({ item, ok, error }) => ({
+        label: `${item.user_name || item.user_email} → ${item.group?.name || 'Group'}`,
+        ok,
+        message: ok
+          ? decision === 'approved' ? `Approved as ${options.role}` : 'Denied'
+          : error?.userMessage || 'Request failed',
+      })),
+    });
+  };
+
+  const handleReviewed = (decision: ReviewDecision) => {
+    if (!reviewingRequest) return;
+
+    invalidateReviewedRequests(reviewingRequest.group_id, decision === 'approved');
+    setReviewingRequest(null);
+  };
+
+  const setCachedInvitation = (invitation: GroupInvitation) => {
+    queryCache.setData<ManagedGroupsData<GroupInvitation>>(
+      queryKeys.managedInvitations(),
+      (current = { items: [], failedGroups: [] }) => ({
+        ...current,
+        items: current.items.map((i) => (i.id === invitation.id ? { ...invitation, group: i.group } : i)),
+      })
+    );
+  };
+
+  const setResending = (ids: string[], resending: boolean) => {
+    setResendingIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (resending ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const resendInvitations = async (invitations: GroupInvitation[]) => {
+    const ids = invitations.map((i) => i.id);
+    setResending(ids, true);
+    const results = await runWithConcurrency(invitations, async (invitation) => {
+      const response = await groupsAPI.resendInvitation(invitation.group_id, invitation.id, {
+        expires_in_days: DEFAULT_EXPIRY_DAYS,
+      });
+      setCachedInvitation(response.data);
+      return response.data;
+    });
+    setResending(ids, false);
+    new Set(invitations.map((i) => i.group_id)).forEach((groupId) => {
+      queryCache.invalidate(queryKeys.invitations(groupId));
+    });
+    return results;
+  };
+
+  const handleResend = async (invitation: GroupInvitation) => {
+    const [result] = await resendInvitations([invitation]);
+    if (result.ok) {
+      toast.success(`Invitation resent to ${invitation.email}`);
+    } else {
+      console.error('Failed to resend invitation:', result.error);
+      toast.error(result.error?.userMessage || 'Failed to resend invitation');
+    }
+  };
+
+  const handleResendAll = async (invitations: GroupInvitation[]) => {
+    const results = await resendInvitations(invitations);
+    setBulkResults({
+      title: 'Resend Invitations',
+      results: results.map(({ item, ok, error }) => ({
+        label: item.email,
+        ok,
+        message: ok ? `Valid for ${expiryLabel(DEFAULT_EXPIRY_DAYS)}` : error?.userMessage || 'Request failed',
+      })),
+    });
+  };
+
+  // Revocations are held back behind an undo toast like on the group page
+  const handleRevoke = (invitation: GroupInvitation) => {
+    setCachedInvitation({ ...invitation, status: 'revoked' });
+
+    scheduleUndoable({
+      id: `revoke-invitation:${invitation.group_id}:${invitation.id}`,
+      message: `Revoked invitation for ${invitation.email}`,
+      commit: () => groupsAPI.revokeInvitation(invitation.group_id, invitation.id),
+      queryKeys: [queryKeys.managedInvitations()],
+      onUndo: () => setCachedInvitation(invitation),
+      onCommitted: () => {
+        queryCache.invalidate(queryKeys.managedInvitations());
+        queryCache.invalidate(queryKeys.invitations(invitation.group_id));
+      },
+      onError: (error: any) => {
+        console.error('Failed to revoke invitation:', error);
+        toast.error(error.userMessage || 'Failed to revoke invitation');
+      },
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <LoadingSpinner size="large" className="mt-20" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Review Inbox</h1>
+        <p className="mt-2 text-gray-600">
+          Pending join requests and expiring invitations across the groups you manage.
+        </p>
+      </div>
+
+      {failedGroupNames.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+          <ExclamationTriangleIcon className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
+          <p className="ml-3 text-sm text-red-700">
+            Some groups could not be checked, so this list may be incomplete: {failedGroupNames.join(', ')}.
+          </p>
+        </div>
+      )}
+
+      {(selectedRequests.length > 0 || bulkProgress) && (
+        <JoinRequestBulkActions
+          selectedCount={selectedRequests.length}
+          progress={bulkProgress}
+          onReview={setBulkReviewDecision}
+          onClear={() => setSelectedRequestIds(new Set())}
+        />
+      )}
+
+      {sections.length === 0 ? (
+        <div className="text-center py-12">
+          <InboxStackIcon className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nothing to review</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {managedGroups.length === 0
+              ? 'Join requests for groups you manage will show up here.'
+              : 'All join requests have been handled and no invitations are about to expire.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {sections.map(({ group, requests: groupRequests, invitations }) => {
+            const requestIds = groupRequests.map((r) => r.id);
+            const allSelected = requestIds.length > 0 && requestIds.every((id) => selectedRequestIds.has(id));
+
+            return (
+              <div key={group.id} className="bg-white shadow rounded-lg">
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <h2 className="text-lg font-medium text-gray-900">
+                    <Link to={`/detail/${group.id}?tab=requests`} className="hover:text-primary-600">
+                      {group.name}
+                    </Link>
+                  </h2>
+                  <span className="text-sm text-gray-500">
+                    {groupRequests.length} request{groupRequests.length === 1 ? '' : 's'} • {invitations.length} invitation{invitations.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+
+                {groupRequests.length > 0 && (
+                  <div className="px-6 py-4">
+                    <label className="flex items-center text-sm text-gray-600 mb-3">
+                      <input
+                        type="checkbox"
+                        checked={allSelected}
+                        onChange={() => toggleRequests(requestIds, !allSelected)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="ml-2">Select all join requests</span>
+                    </label>
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {groupRequests.map((request) => (
+                        <li key={request.id} className="p-4 flex items-start justify-between">
+                          <div className="flex items-start">
+                            <input
+                              type="checkbox"
+                              checked={selectedRequestIds.has(request.id)}
+                              onChange={() => toggleRequests([request.id], !selectedRequestIds.has(request.id))}
+                              className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                              aria-label={`Select ${request.user_email}`}
+                            />
+                            <div className="ml-3">
+                              <p className="text-sm font-medium text-gray-900">
+                                {request.user_name || request.user_email}
+                                {request.user_name && <span className="ml-1 font-normal text-gray-500">{request.user_email}</span>}
+                              </p>
+                              {request.message && (
+                                <p className="mt-1 text-sm text-gray-600 line-clamp-2">"{request.message}"</p>
+                              )}
+                              <p className="mt-1 flex items-center text-xs text-gray-500">
+                                <ClockIcon className="mr-1 h-4 w-4" />
+                                Requested {format(new Date(request.created_at), 'MMM d, yyyy')}
+                              </p>
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => setReviewingRequest(request)}
+                            disabled={!!bulkProgress}
+                            className="ml-4 btn-secondary text-sm disabled:opacity-50"
+                          >
+                            Review
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {invitations.length > 0 && (
+                  <div className="px-6 py-4 border-t border-gray-200">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="text-sm font-medium text-gray-700">Expiring invitations</h3>
+                      {invitations.length > 1 && (
+                        <button
+                          onClick={() => handleResendAll(invitations)}
+                          disabled={invitations.some((i) => resendingIds.has(i.id))}
+                          className="text-sm text-primary-600 hover:text-primary-500 disabled:opacity-50"
+                        >
+                          Resend all
+                        </button>
+                      )}
+                    </div>
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {invitations.map((invitation) => (
+                        <li key={invitation.id} className="p-4 flex items-center justify-between">
+                          <div className="flex items-start">
+                            <EnvelopeIcon className="h-5 w-5 text-gray-400 mt-0.5" />
+                            <div className="ml-3">
+                              <p className="text-sm font-medium text-gray-900">{invitation.email}</p>
+                              <p className="text-xs text-gray-500">
+                                {invitation.role} • {isLapsed(invitation) ? 'Expired' : 'Expires'}{' '}
+                                {format(new Date(invitation.expires_at), 'MMM d, yyyy')}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="ml-4 flex items-center space-x-3">
+                            <button
+                              onClick={() => handleResend(invitation)}
+                              disabled={resendingIds.has(invitation.id)}
+                              className="text-primary-600 hover:text-primary-500 text-sm disabled:opacity-50"
+                            >
+                              {resendingIds.has(invitation.id) ? 'Resending...' : 'Resend'}
+                            </button>
+                            <button
+                              onClick={() => handleRevoke(invitation)}
+                              className="text-red-600 hover:text-red-500 text-sm"
+                            >
+                              Revoke
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <JoinRequestReviewModal
+        onClose={() => setReviewingRequest(null)}
+        onReviewed={handleReviewed}
+        groupId={reviewingRequest?.group_id || ''}
+        request={reviewingRequest}
+        canAdmin={!!reviewingRequest && isAdministrator(reviewingRequest.group_id)}
+      />
+
+      <JoinRequestBulkReviewModal
+        decision={bulkReviewDecision}
+        count={selectedRequests.length}
+        canAdmin={selectedRequests.every((r) => isAdministrator(r.group_id))}
+        onClose={() => setBulkReviewDecision(null)}
+        onConfirm={handleBulkReview}
+      />
+
+      <BulkResultsModal
+        isOpen={!!bulkResults}
+        onClose={() => setBulkResults(null)}
+        title={bulkResults?.title || ''}
+        results={bulkResults?.results || []}
+      />
+    </div>
+  );
+};
+
+export default ReviewInbox;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { XMarkIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+
+export interface BulkResult {
+  label: string;
+  ok: boolean;
+  message?: string;
+}
+
+interface BulkResultsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  results: BulkResult[];
+}
+
+// Per-item summary of a bulk operation, failures listed first
+const BulkResultsModal: React.FC<BulkResultsModalProps> = ({ isOpen, onClose, title, results }) => {
+  const failed = results.filter((r) => !r.ok);
+  const succeeded = results.filter((r) => r.ok);
+
+  return (
+    <Transition.Root show={isOpen}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 z-10 overflow-y-auto">
+          <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+            <Transition.Child
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+              enterTo="opacity-100 translate-y-0 sm:scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 translate-y-0 sm:scale-100"
+              leaveTo="opacity-0 translate-y-4 sm:translate-y-0 sm:scale-95"
+            >
+              <Dialog.Panel className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6">
+                <div className="absolute right-0 top-0 hidden pr-4 pt-4 sm:block">
+                  <button
+                    type="button"
+                    className="rounded-md bg-white text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                    onClick={onClose}
+                  >
+                    <span className="sr-only">Close</span>
+                    <XMarkIcon className="h-6 w-6" />
+                  </button>
+                </div>
+
+                <Dialog.Title as="h3" className="text-lg font-medium leading-6 text-gray-900">
+                  {title}
+                </Dialog.Title>
+                <p className="mt-2 text-sm text-gray-500">
+                  {succeeded.length} succeeded, {failed.length} failed
+                </p>
+
+                <ul className="mt-4 max-h-80 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {[...failed, ...succeeded].map((result, index) => (
+                    <li key={index} className="flex items-start px-3 py-2 text-sm">
+                      {result.ok ? (
+                        <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0" />
+                      ) : (
+                        <XCircleIcon className="h-5 w-5 text-red-500 flex-shrink-0" />
+                      )}
+                      <div className="ml-2 min-w-0">
+                        <div className="text-gray-900 truncate">{result.label}</div>
+                        {result.message && (
+                          <div className={result.ok ? 'text-gray-500' : 'text-red-600'}>{result.message}</div>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="mt-5 sm:mt-6">
+                  <button
+                    type="button"
+                    className="inline-flex w-full justify-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                    onClick={onClose}
+                  >
+                    Close
+                  </button>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition.Root>
+  );
+};
+
+export default BulkResultsModal;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Menu, Transition } from '@headlessui/react';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { ExportFormat } from '../utils/export';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled, label = 'Export' }) => (
+  <Menu as="div" className="relative">
+    <Menu.Button disabled={disabled} className="btn-secondary text-sm inline-flex items-center disabled:opacity-50">
+      <ArrowDownTrayIcon className="mr-1 h-4 w-4" />
+      {label}
+    </Menu.Button>
+    <Transition
+      enter="transition ease-out duration-100"
+      enterFrom="transform opacity-0 scale-95"
+      enterTo="transform opacity-100 scale-100"
+      leave="transition ease-in duration-75"
+      leaveFrom="transform opacity-100 scale-100"
+      leaveTo="transform opacity-0 scale-95"
+    >
+      <Menu.Items className="absolute right-0 z-10 mt-2 w-40 origin-top-right rounded-md bg-white py-1 shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+        <Menu.Item>
+          {({ active }) => (
+            <button
+              onClick={() => onExport('csv')}
+              className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+            >
+              Export as CSV
+            </button>
+          )}
+        </Menu.Item>
+        <Menu.Item>
+          {({ active }) => (
+            <button
+              onClick={() => onExport('json')}
+              className={`${active ? 'bg-gray-100' : ''} block px-4 py-2 text-sm text-gray-700 w-full text-left`}
+            >
+              Export as JSON
+            </button>
+          )}
+        </Menu.Item>
+      </Menu.Items>
+    </Transition>
+  </Menu>
+);
+
+export default ExportMenu;
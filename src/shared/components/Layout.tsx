@@ -1,10 +1,19 @@
 import React, { useState } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  canManage,
+  useGroupsList,
+  usePendingReviews,
+  usePendingInvitations,
+} from '../hooks/useGroupsQueries';
+import NotificationBell from './NotificationBell';
 import {
   HomeIcon,
   UserGroupIcon,
   InboxIcon,
+  PaperAirplaneIcon,
+  InboxStackIcon,
   Bars3Icon,
   XMarkIcon,
   ArrowRightOnRectangleIcon,
@@ -15,6 +24,8 @@ const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
   { name: 'Groups', href: '/detail', icon: UserGroupIcon },
   { name: 'Invitations', href: '/invitations', icon: InboxIcon },
+  { name: 'Join Requests', href: '/join-requests', icon: PaperAirplaneIcon },
+  { name: 'Review', href: '/review', icon: InboxStackIcon, managersOnly: true },
 ];
 
 const Layout: React.FC = () => {
@@ -22,6 +33,21 @@ const Layout: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
 
+  // The review inbox is only listed for managers, with a count of pending
+  // join requests across their groups. Counting takes a request per managed
+  // group, so the badge refreshes rarely and not on focus.
+  const groupsQuery = useGroupsList(true);
+  const isManager = (groupsQuery.data || []).some(canManage);
+  const reviewsQuery = usePendingReviews(isManager ? groupsQuery.data : undefined);
+  // The session's count is only fetched at sign-in; prefer the live list
+  const invitationsQuery = usePendingInvitations();
+  const sidebarProps: SidebarContentProps = {
+    isManager,
+    pendingReviewCount: reviewsQuery.data?.items.length || 0,
+    reviewCountIncomplete: (reviewsQuery.data?.failedGroups.length || 0) > 0,
+    pendingInvitationCount: invitationsQuery.data?.length ?? user?.pending_invitations_count ?? 0,
+  };
+
   const getUserInitials = (email: string, fullName?: string) => {
     if (fullName) {
       const names = fullName.split(' ');
@@ -79,7 +105,7 @@ const Layout: React.FC = () => {
                   <XMarkIcon className="h-6 w-6 text-white" />
                 </button>
               </div>
-              <SidebarContent />
+              <SidebarContent {...sidebarProps} />
             </div>
           </Transition.Child>
         </div>
@@ -88,7 +114,7 @@ const Layout: React.FC = () => {
       {/* Desktop sidebar */}
       <div className="hidden md:flex md:flex-shrink-0">
         <div className="flex flex-col w-64">
-          <SidebarContent />
+          <SidebarContent {...sidebarProps} />
         </div>
       </div>
 
@@ -110,6 +136,8 @@ const Layout: React.FC = () => {
               {/* This space can be used for search or breadcrumbs */}
             </div>
             <div className="ml-4 flex items-center md:ml-6">
+              <NotificationBell />
+
               {/* User menu */}
               <Menu as="div" className="ml-3 relative">
                 <div>
@@ -166,41 +194,59 @@ const Layout: React.FC = () => {
   );
 };
 
-const SidebarContent: React.FC = () => {
-  const { user } = useAuth();
+interface SidebarContentProps {
+  isManager: boolean;
+  pendingReviewCount: number;
+  // Some managed groups could not be checked
+  reviewCountIncomplete: boolean;
+  pendingInvitationCount: number;
+}
 
-  return (
-    <div className="flex flex-col h-0 flex-1 border-r border-gray-200 bg-white">
-      <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
-        <div className="flex items-center flex-shrink-0 px-4">
-          <h1 className="text-2xl font-bold text-gray-900">DERIVA Groups</h1>
-        </div>
-        <nav className="mt-5 flex-1 px-2 space-y-1">
-          {navigation.map((item) => (
-            <NavLink
-              key={item.name}
-              to={item.href}
-              className={({ isActive }) =>
-                `group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
-                  isActive
-                    ? 'bg-primary-100 text-primary-900'
-                    : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-                }`
-              }
-            >
-              <item.icon className="mr-3 h-5 w-5 flex-shrink-0" />
-              {item.name}
-              {item.name === 'Invitations' && user?.pending_invitations_count > 0 && (
-                <span className="ml-auto bg-red-100 text-red-600 py-0.5 px-2 rounded-full text-xs">
-                  {user.pending_invitations_count}
-                </span>
-              )}
-            </NavLink>
-          ))}
-        </nav>
+const SidebarContent: React.FC<SidebarContentProps> = ({
+  isManager,
+  pendingReviewCount,
+  reviewCountIncomplete,
+  pendingInvitationCount,
+}) => (
+  <div className="flex flex-col h-0 flex-1 border-r border-gray-200 bg-white">
+    <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
+      <div className="flex items-center flex-shrink-0 px-4">
+        <h1 className="text-2xl font-bold text-gray-900">DERIVA Groups</h1>
       </div>
+      <nav className="mt-5 flex-1 px-2 space-y-1">
+        {navigation.filter((item) => !item.managersOnly || isManager).map((item) => (
+          <NavLink
+            key={item.name}
+            to={item.href}
+            className={({ isActive }) =>
+              `group flex items-center px-2 py-2 text-sm font-medium rounded-md ${
+                isActive
+                  ? 'bg-primary-100 text-primary-900'
+                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+              }`
+            }
+          >
+            <item.icon className="mr-3 h-5 w-5 flex-shrink-0" />
+            {item.name}
+            {item.name === 'Invitations' && pendingInvitationCount > 0 && (
+              <span className="ml-auto bg-red-100 text-red-600 py-0.5 px-2 rounded-full text-xs">
+                {pendingInvitationCount}
+              </span>
+            )}
+            {item.name === 'Review' && (pendingReviewCount > 0 || reviewCountIncomplete) && (
+              <span
+                className="ml-auto bg-red-100 text-red-600 py-0.5 px-2 rounded-full text-xs"
+                title={reviewCountIncomplete ? 'Some groups could not be checked' : undefined}
+              >
+                {pendingReviewCount}
+                {reviewCountIncomplete && '+'}
+              </span>
+            )}
+          </NavLink>
+        ))}
+      </nav>
     </div>
-  );
-};
+  </div>
+);
 
 export default Layout;
\ No newline at end of file
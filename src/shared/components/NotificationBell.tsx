@@ -0,0 +1,155 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Menu, Transition } from '@headlessui/react';
+import { BellIcon } from '@heroicons/react/24/outline';
+import { formatDistanceToNow } from 'date-fns';
+import { notificationsAPI, UserNotification } from '../utils/api';
+import { queryCache } from '../utils/queryCache';
+import { queryKeys, useNotifications } from '../hooks/useGroupsQueries';
+import toast from 'react-hot-toast';
+
+type NotificationsData = { notifications: UserNotification[]; unread_count: number };
+
+// Where a notification leads: the group, the user's invitations, or the
+// join request views
+const getNotificationLink = (notification: UserNotification) => {
+  const groupLink = notification.group_id ? `/detail/${notification.group_id}` : '/detail';
+  switch (notification.type) {
+    case 'invitation_received':
+      return '/invitations';
+    case 'join_request_received':
+      return notification.group_id ? `${groupLink}?tab=requests` : '/review';
+    case 'join_request_denied':
+      return '/join-requests';
+    case 'member_removed':
+      // The group itself is no longer visible to the user
+      return '/detail';
+    default:
+      return groupLink;
+  }
+};
+
+const markCachedRead = (ids: string[] | 'all') => {
+  const readAt = new Date().toISOString();
+  queryCache.setData<NotificationsData>(queryKeys.notifications(), (current) => {
+    if (!current) return { notifications: [], unread_count: 0 };
+    const isTarget = (n: UserNotification) => !n.read_at && (ids === 'all' || ids.includes(n.id));
+    const marked = current.notifications.filter(isTarget).length;
+    return {
+      notifications: current.notifications.map((n) => (isTarget(n) ? { ...n, read_at: readAt } : n)),
+      unread_count: ids === 'all' ? 0 : Math.max(0, current.unread_count - marked),
+    };
+  });
+};
+
+// Bell with the latest notifications. New unread notifications also refresh
+// the pending invitation and join request lists they usually relate to.
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const notificationsQuery = useNotifications();
+  const notifications = notificationsQuery.data?.notifications || [];
+  const unreadCount = notificationsQuery.data?.unread_count || 0;
+
+  const lastUnreadCount = useRef(unreadCount);
+  useEffect(() => {
+    if (unreadCount > lastUnreadCount.current) {
+      queryCache.invalidate(queryKeys.pendingInvitations());
+      queryCache.invalidate(queryKeys.pendingReviews());
+      queryCache.invalidate(queryKeys.myJoinRequests());
+      queryCache.invalidate(queryKeys.groupLists());
+    }
+    lastUnreadCount.current = unreadCount;
+  }, [unreadCount]);
+
+  const markRead = async (ids: string[] | 'all') => {
+    markCachedRead(ids);
+    try {
+      if (ids === 'all') {
+        await notificationsAPI.markAllRead();
+      } else {
+        await notificationsAPI.markRead(ids);
+      }
+    } catch (error: any) {
+      console.error('Failed to mark notifications as read:', error);
+      toast.error(error.userMessage || 'Failed to mark notifications as read');
+      queryCache.invalidate(queryKeys.notifications());
+    }
+  };
+
+  const openNotification = (notification: UserNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <Menu as="div" className="relative">
+      <Menu.Button className="relative rounded-full bg-white p-1 text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
+        <span className="sr-only">
+          {unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        </span>
+        <BellIcon className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] rounded-full bg-red-600 px-1 text-center text-xs font-medium leading-5 text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Menu.Button>
+      <Transition
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="origin-top-right absolute right-0 mt-2 w-80 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead('all')}
+                className="text-xs text-primary-600 hover:text-primary-500"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</div>
+          ) : (
+            <div className="max-h-96 overflow-y-auto py-1">
+              {notifications.map((notification) => (
+                <Menu.Item key={notification.id}>
+                  {({ active }) => (
+                    <button
+                      onClick={() => openNotification(notification)}
+                      className={`${active ? 'bg-gray-100' : notification.read_at ? '' : 'bg-primary-50'} flex w-full items-start px-4 py-2 text-left`}
+                    >
+                      <span
+                        className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.read_at ? 'bg-transparent' : 'bg-primary-600'}`}
+                        aria-hidden="true"
+                      />
+                      <span className="ml-2 min-w-0">
+                        <span className={`block text-sm ${notification.read_at ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                          {notification.message}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {notification.group_name && `${notification.group_name} • `}
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </span>
+                      </span>
+                    </button>
+                  )}
+                </Menu.Item>
+              ))}
+            </div>
+          )}
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,167 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // Expected row height in px; rows are measured once rendered
+  estimateSize?: number;
+  // Space between rows in px
+  gap?: number;
+  // Lists up to this length are rendered in full
+  threshold?: number;
+  className?: string;
+  ariaLabel?: string;
+}
+
+// Nearest ancestor that scrolls vertically (the Layout's <main> in practice)
+const getScrollParent = (element: HTMLElement | null): HTMLElement | null => {
+  let parent = element?.parentElement || null;
+  while (parent) {
+    const { overflowY } = window.getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') {
+      return parent;
+    }
+    parent = parent.parentElement;
+  }
+  return (document.scrollingElement as HTMLElement | null) || document.documentElement;
+};
+
+// Windowed list that scrolls with the page instead of an inner scroll box, so
+// dropdown menus in the rows are not clipped. Rows are absolutely positioned
+// with `top` rather than a transform so they don't create stacking contexts
+// that would cover a neighbouring row's menu.
+//
+// Arrow keys, Home and End move focus between rows (a roving tabindex keeps
+// a single row in the tab order), scrolling unrendered rows into view.
+function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize = 80,
+  gap = 16,
+  threshold = 50,
+  className,
+  ariaLabel,
+}: VirtualListProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const virtualize = items.length > threshold;
+
+  useLayoutEffect(() => {
+    setScrollElement(getScrollParent(listRef.current));
+  }, []);
+
+  // Offset of the list within the scroll container; content above it (filters,
+  // banners) can change height between renders
+  useLayoutEffect(() => {
+    if (!virtualize || !scrollElement || !listRef.current) return;
+    const margin = listRef.current.getBoundingClientRect().top
+      - scrollElement.getBoundingClientRect().top
+      + scrollElement.scrollTop;
+    if (Math.abs(margin - scrollMargin) > 1) {
+      setScrollMargin(margin);
+    }
+  });
+
+  const virtualizer = useVirtualizer({
+    count: virtualize ? items.length : 0,
+    getScrollElement: () => scrollElement,
+    estimateSize: () => estimateSize,
+    getItemKey: (index) => getKey(items[index]),
+    overscan: 5,
+    gap,
+    scrollMargin,
+  });
+
+  const focusRow = (index: number, attempts = 5) => {
+    const row = listRef.current?.querySelector<HTMLElement>(`[data-index="${index}"]`);
+    if (row) {
+      row.focus();
+    } else if (attempts > 0) {
+      // Not rendered yet; wait for the virtualizer to catch up with the scroll
+      requestAnimationFrame(() => focusRow(index, attempts - 1));
+    }
+  };
+
+  const moveFocus = (index: number) => {
+    const next = Math.max(0, Math.min(items.length - 1, index));
+    setActiveIndex(next);
+    if (virtualize) {
+      virtualizer.scrollToIndex(next, { align: 'auto' });
+    }
+    requestAnimationFrame(() => focusRow(next));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Only handle keys on the row itself so menus inside rows keep theirs
+    const target = event.target as HTMLElement;
+    if (target.getAttribute('role') !== 'listitem') return;
+
+    const index = Number(target.dataset.index);
+    switch (event.key) {
+      case 'ArrowDown':
+        moveFocus(index + 1);
+        break;
+      case 'ArrowUp':
+        moveFocus(index - 1);
+        break;
+      case 'Home':
+        moveFocus(0);
+        break;
+      case 'End':
+        moveFocus(items.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const rowProps = (index: number) => ({
+    'data-index': index,
+    role: 'listitem',
+    tabIndex: index === Math.min(activeIndex, items.length - 1) ? 0 : -1,
+    'aria-posinset': index + 1,
+    'aria-setsize': items.length,
+    onFocus: () => setActiveIndex(index),
+    className: 'rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-500',
+  });
+
+  return (
+    <div ref={listRef} role="list" aria-label={ariaLabel} className={className} onKeyDown={handleKeyDown}>
+      {virtualize ? (
+        <div style={{ height: virtualizer.getTotalSize(), position: 'relative' }}>
+          {virtualizer.getVirtualItems().map((virtualRow) => (
+            <div
+              key={virtualRow.key}
+              ref={virtualizer.measureElement}
+              {...rowProps(virtualRow.index)}
+              style={{
+                position: 'absolute',
+                top: virtualRow.start - scrollMargin,
+                left: 0,
+                width: '100%',
+              }}
+            >
+              {renderItem(items[virtualRow.index], virtualRow.index)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap }}>
+          {items.map((item, index) => (
+            <div key={getKey(item)} {...rowProps(index)}>
+              {renderItem(item, index)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VirtualList;
@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { AppConfig, loadConfig } from '../utils/config';
+import { configureAPI } from '../utils/api';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+const ConfigContext = createContext<AppConfig | undefined>(undefined);
+
+export const useConfig = () => {
+  const context = useContext(ConfigContext);
+  if (context === undefined) {
+    throw new Error('useConfig must be used within a ConfigProvider');
+  }
+  return context;
+};
+
+interface ConfigProviderProps {
+  children: React.ReactNode;
+}
+
+// Loads the runtime configuration before rendering anything that talks to the
+// API, so AuthProvider and every page see the configured hosts.
+export const ConfigProvider: React.FC<ConfigProviderProps> = ({ children }) => {
+  const [config, setConfig] = useState<AppConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConfig()
+      .then((loaded) => {
+        configureAPI(loaded);
+        setConfig(loaded);
+      })
+      .catch((err: any) => {
+        console.error('Config error:', err);
+        setError(err.message || 'Failed to load configuration');
+      });
+  }, []);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="max-w-md w-full">
+          <div className="bg-white shadow rounded-lg p-6 text-center">
+            <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-red-500 mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Configuration Error</h2>
+            <p className="text-gray-600">{error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!config) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="large" />
+      </div>
+    );
+  }
+
+  return (
+    <ConfigContext.Provider value={config}>
+      {children}
+    </ConfigContext.Provider>
+  );
+};
@@ -0,0 +1,223 @@
+import { useQuery } from './useQuery';
+import { usePagedQuery, fetchAllPages } from './usePagedQuery';
+import { runWithConcurrency } from '../utils/concurrency';
+import {
+  groupsAPI,
+  joinRequestsAPI,
+  notificationsAPI,
+  toPage,
+  PageParams,
+  Group,
+  GroupMembership,
+  JoinRequest,
+  AuditEvent,
+  AuditEventFilters,
+} from '../utils/api';
+
+export const GROUPS_PAGE_SIZE = 24;
+export const MEMBERS_PAGE_SIZE = 100;
+export const AUDIT_EVENTS_PAGE_SIZE = 50;
+export const ACTIVITY_FEED_SIZE = 50;
+export const NOTIFICATIONS_LIMIT = 20;
+// Notifications are polled while the page is visible
+export const NOTIFICATIONS_POLL_INTERVAL = 60 * 1000;
+// Nav badges that need one request per managed group refresh this rarely
+export const BADGE_STALE_TIME = 5 * 60 * 1000;
+
+// Cache keys for each resource. Keys share a prefix per resource type so a
+// mutation can invalidate e.g. every groups list with queryKeys.groupLists().
+export const queryKeys = {
+  groupLists: () => ['groups', 'list'] as const,
+  groupList: (myGroupsOnly: boolean) => ['groups', 'list', myGroupsOnly ? 'my' : 'all'] as const,
+  pagedGroupList: (myGroupsOnly: boolean) => ['groups', 'list', myGroupsOnly ? 'my' : 'all', 'paged'] as const,
+  group: (groupId: string) => ['groups', 'detail', groupId] as const,
+  members: (groupId: string) => ['groups', 'members', groupId] as const,
+  invitations: (groupId: string) => ['groups', 'invitations', groupId] as const,
+  joinRequests: (groupId: string) => ['groups', 'join-requests', groupId] as const,
+  joinRequestHistory: (groupId: string) => ['groups', 'join-requests', groupId, 'history'] as const,
+  joinLinks: (groupId: string) => ['groups', 'join-links', groupId] as const,
+  auditEvents: (groupId: string) => ['groups', 'audit-events', groupId] as const,
+  filteredAuditEvents: (groupId: string, filters: AuditEventFilters) =>
+    ['groups', 'audit-events', groupId, filters] as const,
+  pendingInvitations: () => ['invitations', 'pending'] as const,
+  myJoinRequests: () => ['join-requests', 'my'] as const,
+  pendingReviews: () => ['join-requests', 'pending-reviews'] as const,
+  managedInvitations: () => ['invitations', 'managed'] as const,
+  myActivity: () => ['activity', 'my'] as const,
+  notifications: () => ['notifications'] as const,
+};
+
+export const useGroupsList = (myGroupsOnly = false) =>
+  useQuery(
+    queryKeys.groupList(myGroupsOnly),
+    () => groupsAPI.listGroups(myGroupsOnly).then((response) => response.data.groups)
+  );
+
+const getGroupId = (group: Group) => group.id;
+const getMemberId = (member: GroupMembership) => member.user_id;
+
+// Paged variant for the Groups page; the Dashboard keeps the full list for
+// its counts
+export const usePagedGroupsList = (myGroupsOnly = false) =>
+  usePagedQuery(
+    queryKeys.pagedGroupList(myGroupsOnly),
+    (params: PageParams) =>
+      groupsAPI.listGroups(myGroupsOnly, params).then(({ data }) => toPage(data.groups, data, params)),
+    getGroupId,
+    { pageSize: GROUPS_PAGE_SIZE }
+  );
+
+export const useGroup = (groupId: string | undefined) =>
+  useQuery(
+    queryKeys.group(groupId || ''),
+    () => groupsAPI.getGroup(groupId!).then((response) => response.data),
+    { enabled: !!groupId }
+  );
+
+const fetchMembersPage = (groupId: string) => (params: PageParams) =>
+  groupsAPI.getGroupMembers(groupId, params).then(({ data }) => toPage(data.members, data, params));
+
+export const fetchAllGroupMembers = (groupId: string) =>
+  fetchAllPages(fetchMembersPage(groupId), getMemberId, MEMBERS_PAGE_SIZE);
+
+export const useGroupMembers = (groupId: string | undefined) =>
+  usePagedQuery(
+    queryKeys.members(groupId || ''),
+    fetchMembersPage(groupId!),
+    getMemberId,
+    { pageSize: MEMBERS_PAGE_SIZE, enabled: !!groupId }
+  );
+
+export const useGroupInvitations = (groupId: string | undefined, enabled = true) =>
+  useQuery(
+    queryKeys.invitations(groupId || ''),
+    () => groupsAPI.getGroupInvitations(groupId!).then((response) => response.data.invitations),
+    { enabled: !!groupId && enabled }
+  );
+
+export const useGroupJoinRequests = (groupId: string | undefined, enabled = true) =>
+  useQuery(
+    queryKeys.joinRequests(groupId || ''),
+    () => joinRequestsAPI.getGroupJoinRequests(groupId!).then((response) => response.data.join_requests),
+    { enabled: !!groupId && enabled }
+  );
+
+// Every request regardless of status; invalidated along with the pending list
+export const useGroupJoinRequestHistory = (groupId: string | undefined, enabled = true) =>
+  useQuery(
+    queryKeys.joinRequestHistory(groupId || ''),
+    () => joinRequestsAPI.getGroupJoinRequests(groupId!, false).then((response) => response.data.join_requests),
+    { enabled: !!groupId && enabled }
+  );
+
+export const useGroupJoinLinks = (groupId: string | undefined, enabled = true) =>
+  useQuery(
+    queryKeys.joinLinks(groupId || ''),
+    () => joinRequestsAPI.getJoinLinks(groupId!).then((response) => response.data.join_links),
+    { enabled: !!groupId && enabled }
+  );
+
+const getAuditEventId = (event: AuditEvent) => event.id;
+
+const fetchAuditEventsPage = (groupId: string, filters: AuditEventFilters) => (params: PageParams) =>
+  groupsAPI.getAuditEvents(groupId, filters, params).then(({ data }) => toPage(data.events, data, params));
+
+export const fetchAllAuditEvents = (groupId: string, filters: AuditEventFilters) =>
+  fetchAllPages(fetchAuditEventsPage(groupId, filters), getAuditEventId, AUDIT_EVENTS_PAGE_SIZE);
+
+// Filtering happens on the server, so each filter combination is cached
+// under its own key; queryKeys.auditEvents() invalidates all of them
+export const useGroupAuditEvents = (groupId: string | undefined, filters: AuditEventFilters, enabled = true) =>
+  usePagedQuery(
+    queryKeys.filteredAuditEvents(groupId || '', filters),
+    fetchAuditEventsPage(groupId!, filters),
+    getAuditEventId,
+    { pageSize: AUDIT_EVENTS_PAGE_SIZE, enabled: !!groupId && enabled }
+  );
+
+export const usePendingInvitations = () =>
+  useQuery(
+    queryKeys.pendingInvitations(),
+    () => groupsAPI.getPendingInvitations().then((response) => response.data.invitations)
+  );
+
+export const canManage = (group: Group) =>
+  group.membership?.role === 'administrator' || group.membership?.role === 'manager';
+
+// Merged results of a per-group request, with the groups whose request
+// failed so views can say the list is incomplete
+export interface ManagedGroupsData<T> {
+  items: T[];
+  failedGroups: Group[];
+}
+
+// Run a per-group request for every group the user manages and merge the
+// results. Groups that fail to load are reported in failedGroups unless all
+// of them fail, which fails the query.
+const fetchForManagedGroups = async <T>(
+  groups: Group[],
+  fetch: (group: Group) => Promise<T[]>
+): Promise<ManagedGroupsData<T>> => {
+  const results = await runWithConcurrency(groups.filter(canManage), fetch);
+  const failed = results.filter((r) => !r.ok);
+  if (failed.length > 0 && failed.length === results.length) {
+    throw failed[0].error;
+  }
+  failed.forEach(({ item, error }) => console.error(`Failed to load data for group ${item.name}:`, error));
+  return {
+    items: results.flatMap((r) => r.value || []),
+    failedGroups: failed.map((r) => r.item),
+  };
+};
+
+// Pending join requests across every group the user manages
+export const fetchPendingReviews = (groups: Group[]): Promise<ManagedGroupsData<JoinRequest>> =>
+  fetchForManagedGroups(groups, (group) =>
+    joinRequestsAPI.getGroupJoinRequests(group.id).then((response) =>
+      response.data.join_requests
+        .filter((request) => request.status === 'pending')
+        .map((request) => ({ ...request, group: request.group || group }))
+    )
+  );
+
+// Needs the user's groups (see useGroupsList) before it can run. Every caller
+// shares one cache entry that takes a request per managed group, so it
+// refreshes rarely and not on focus.
+export const usePendingReviews = (groups: Group[] | undefined) =>
+  useQuery(
+    queryKeys.pendingReviews(),
+    () => fetchPendingReviews(groups!),
+    { staleTime: BADGE_STALE_TIME, refetchOnFocus: false, enabled: !!groups }
+  );
+
+// Invitations of every group the user manages
+export const useManagedInvitations = (groups: Group[] | undefined) =>
+  useQuery(
+    queryKeys.managedInvitations(),
+    () =>
+      fetchForManagedGroups(groups!, (group) =>
+        groupsAPI.getGroupInvitations(group.id).then((response) =>
+          response.data.invitations.map((invitation) => ({ ...invitation, group: invitation.group || group }))
+        )
+      ),
+    { enabled: !!groups }
+  );
+
+export const useMyActivity = () =>
+  useQuery(
+    queryKeys.myActivity(),
+    () => groupsAPI.getMyAuditEvents({ limit: ACTIVITY_FEED_SIZE }).then((response) => response.data.events)
+  );
+
+export const useMyJoinRequests = () =>
+  useQuery(
+    queryKeys.myJoinRequests(),
+    () => joinRequestsAPI.getMyJoinRequests().then((response) => response.data.join_requests)
+  );
+
+export const useNotifications = () =>
+  useQuery(
+    queryKeys.notifications(),
+    () => notificationsAPI.getNotifications({ limit: NOTIFICATIONS_LIMIT }).then((response) => response.data),
+    { refetchInterval: NOTIFICATIONS_POLL_INTERVAL }
+  );
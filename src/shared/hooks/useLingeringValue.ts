@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// The value a dialog shows: the current one, or the last non-null one while
+// the close transition runs so the content doesn't vanish as it fades out.
+// Pass the returned clear function to the Transition's afterLeave.
+export const useLingeringValue = <T>(value: T | null) => {
+  const [lastValue, setLastValue] = useState<T | null>(value);
+
+  useEffect(() => {
+    if (value !== null) {
+      setLastValue(value);
+    }
+  }, [value]);
+
+  const clear = useCallback(() => setLastValue(null), []);
+
+  return [value ?? lastValue, clear] as const;
+};
@@ -0,0 +1,218 @@
+import { useCallback, useState } from 'react';
+import toast from 'react-hot-toast';
+import { groupsAPI, GroupMembership } from '../utils/api';
+import { queryCache } from '../utils/queryCache';
+import { queryKeys } from './useGroupsQueries';
+import { PagedData } from './usePagedQuery';
+import { scheduleUndoable, undoAction } from '../utils/undoableActions';
+import { runWithConcurrency } from '../utils/concurrency';
+
+export type MemberAction = 'role' | 'remove';
+
+// A member removed from the cached list whose removal is not yet confirmed.
+// The original position is kept so a rollback puts the row back in place.
+export interface PendingRemoval {
+  member: GroupMembership;
+  index: number;
+}
+
+// Cached members list helpers, shared with the other member mutation hooks.
+// The list is paged (see usePagedQuery); totals are adjusted along with it.
+export const getCachedMembers = (groupId: string) =>
+  queryCache.getState<PagedData<GroupMembership>>(queryKeys.members(groupId)).data?.items || [];
+
+const updateCachedMembers = (groupId: string, update: (members: GroupMembership[]) => GroupMembership[]) => {
+  queryCache.setData<PagedData<GroupMembership>>(queryKeys.members(groupId), (current) => {
+    const previous = current || { items: [], nextPage: null };
+    const items = update(previous.items);
+    const total = previous.total === undefined
+      ? undefined
+      : previous.total + items.length - previous.items.length;
+    return { ...previous, items, total };
+  });
+};
+
+export const replaceCachedMember = (groupId: string, member: GroupMembership) => {
+  updateCachedMembers(groupId, (members) =>
+    members.map((m) => (m.user_id === member.user_id ? member : m))
+  );
+};
+
+export const removeCachedMember = (groupId: string, userId: string): PendingRemoval | null => {
+  const members = getCachedMembers(groupId);
+  const index = members.findIndex((m) => m.user_id === userId);
+  if (index === -1) return null;
+
+  updateCachedMembers(groupId, (current) => current.filter((m) => m.user_id !== userId));
+  return { member: members[index], index };
+};
+
+export const restoreCachedMember = (groupId: string, removal: PendingRemoval) => {
+  updateCachedMembers(groupId, (members) => {
+    if (members.some((m) => m.user_id === removal.member.user_id)) {
+      return members;
+    }
+    const next = [...members];
+    next.splice(Math.min(removal.index, next.length), 0, removal.member);
+    return next;
+  });
+};
+
+// Show members whose removal is in flight at their original position
+export const mergePendingRemovals = (members: GroupMembership[], removals: PendingRemoval[]) => {
+  const merged = [...members];
+  [...removals]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ member, index }) => {
+      if (!merged.some((m) => m.user_id === member.user_id)) {
+        merged.splice(Math.min(index, merged.length), 0, member);
+      }
+    });
+  return merged;
+};
+
+const removalActionId = (groupId: string, userId: string) => `remove-member:${groupId}:${userId}`;
+
+export const invalidateMembership = (groupId: string) => {
+  queryCache.invalidate(queryKeys.members(groupId));
+  queryCache.invalidate(queryKeys.group(groupId));
+  queryCache.invalidate(queryKeys.groupLists());
+  queryCache.invalidate(queryKeys.auditEvents(groupId));
+};
+
+// Bulk operations run the per-member calls with limited concurrency and
+// report a result for every member; the list is refreshed once at the end.
+export const bulkUpdateMemberRoles = async (
+  groupId: string,
+  members: GroupMembership[],
+  role: GroupMembership['role'],
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const results = await runWithConcurrency(
+    members,
+    (member) => groupsAPI.updateMemberRole(groupId, member.user_id, role),
+    { onProgress }
+  );
+  invalidateMembership(groupId);
+  return results;
+};
+
+export const bulkRemoveMembers = async (
+  groupId: string,
+  members: GroupMembership[],
+  onProgress?: (completed: number, total: number) => void
+) => {
+  const results = await runWithConcurrency(
+    members,
+    (member) => groupsAPI.removeGroupMember(groupId, member.user_id),
+    { onProgress }
+  );
+  invalidateMembership(groupId);
+  return results;
+};
+
+// Role changes and removals applied to the cached members list before the
+// server confirms them. On failure the previous membership is restored and
+// the server's message is shown. Removals are additionally deferred behind an
+// undo toast (see utils/undoableActions).
+export const useMemberMutations = (groupId: string | undefined) => {
+  const [pendingActions, setPendingActions] = useState<Record<string, MemberAction>>({});
+  const [pendingRemovals, setPendingRemovals] = useState<PendingRemoval[]>([]);
+
+  const setPending = useCallback((userId: string, action?: MemberAction) => {
+    setPendingActions((prev) => {
+      const next = { ...prev };
+      if (action) {
+        next[userId] = action;
+      } else {
+        delete next[userId];
+      }
+      return next;
+    });
+  }, []);
+
+  const updateRole = useCallback(async (userId: string, role: GroupMembership['role']) => {
+    if (!groupId) return false;
+
+    const previous = getCachedMembers(groupId).find((m) => m.user_id === userId);
+    if (!previous) return false;
+
+    setPending(userId, 'role');
+    replaceCachedMember(groupId, { ...previous, role });
+
+    try {
+      await groupsAPI.updateMemberRole(groupId, userId, role);
+      toast.success('Member role updated successfully');
+      invalidateMembership(groupId);
+      return true;
+    } catch (error: any) {
+      console.error('Failed to update member role:', error);
+      replaceCachedMember(groupId, previous);
+      toast.error(error.userMessage || 'Failed to update member role');
+      return false;
+    } finally {
+      setPending(userId);
+    }
+  }, [groupId, setPending]);
+
+  // Once committed, a removal can still be undone by adding the member back
+  // with their previous role.
+  const removeMember = useCallback((userId: string) => {
+    if (!groupId) return;
+
+    const removal = removeCachedMember(groupId, userId);
+    if (!removal) return;
+
+    const { member } = removal;
+    setPending(userId, 'remove');
+    setPendingRemovals((prev) => [...prev, removal]);
+
+    const settle = () => {
+      setPending(userId);
+      setPendingRemovals((prev) => prev.filter((r) => r.member.user_id !== userId));
+    };
+
+    scheduleUndoable({
+      id: removalActionId(groupId, userId),
+      message: `Removed ${member.user_email}`,
+      commit: () => groupsAPI.removeGroupMember(groupId, userId),
+      queryKeys: [queryKeys.members(groupId)],
+      onUndo: () => {
+        restoreCachedMember(groupId, removal);
+        settle();
+      },
+      onCommitted: () => {
+        settle();
+        invalidateMembership(groupId);
+      },
+      onError: (error: any) => {
+        console.error('Failed to remove member:', error);
+        toast.error(error.userMessage || 'Failed to remove member');
+      },
+      revert: {
+        message: `${member.user_email} added back as ${member.role}`,
+        run: async () => {
+          await groupsAPI.addGroupMember(groupId, {
+            user_id: member.user_id,
+            email: member.user_email,
+            role: member.role,
+          });
+          invalidateMembership(groupId);
+        },
+      },
+    });
+  }, [groupId, setPending]);
+
+  const undoRemoval = useCallback((userId: string) => {
+    if (!groupId) return false;
+    return undoAction(removalActionId(groupId, userId));
+  }, [groupId]);
+
+  return {
+    pendingActions,
+    pendingRemovals,
+    updateRole,
+    removeMember,
+    undoRemoval,
+  };
+};
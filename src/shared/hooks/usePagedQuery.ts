@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useQuery } from './useQuery';
+import { queryCache, QueryKey } from '../utils/queryCache';
+import { Page, PageParams } from '../utils/api';
+
+// Cached shape of a paged list: every page loaded so far, flattened
+export interface PagedData<T> {
+  items: T[];
+  total?: number;
+  nextPage: PageParams | null;
+}
+
+interface UsePagedQueryOptions {
+  pageSize: number;
+  enabled?: boolean;
+}
+
+// Append a page, skipping items already loaded. A page that adds nothing
+// ends the list, which covers backends that ignore the paging parameters.
+const appendPage = <T>(current: PagedData<T>, page: Page<T>, getId: (item: T) => string): PagedData<T> => {
+  const seen = new Set(current.items.map(getId));
+  const added = page.items.filter((item) => !seen.has(getId(item)));
+  return {
+    items: [...current.items, ...added],
+    total: page.total ?? current.total,
+    nextPage: added.length > 0 ? page.nextPage : null,
+  };
+};
+
+// Load every page of a list, e.g. for a complete export
+export const fetchAllPages = async <T>(
+  fetchPage: (params: PageParams) => Promise<Page<T>>,
+  getId: (item: T) => string,
+  pageSize: number
+): Promise<T[]> => {
+  const first = await fetchPage({ limit: pageSize });
+  let data: PagedData<T> = { items: first.items, total: first.total, nextPage: first.nextPage };
+  while (data.nextPage) {
+    data = appendPage(data, await fetchPage(data.nextPage), getId);
+  }
+  return data.items;
+};
+
+export const usePagedQuery = <T>(
+  key: QueryKey,
+  fetchPage: (params: PageParams) => Promise<Page<T>>,
+  getId: (item: T) => string,
+  options: UsePagedQueryOptions
+) => {
+  const { pageSize, enabled = true } = options;
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Refetches reload as many items as are currently shown, so invalidating
+  // the list after a mutation doesn't collapse it back to the first page
+  const query = useQuery<PagedData<T>>(
+    key,
+    async () => {
+      const loaded = queryCache.getState<PagedData<T>>(key).data?.items.length || 0;
+      const params = { limit: Math.max(pageSize, loaded) };
+      const page = await fetchPage(params);
+      return { items: page.items, total: page.total, nextPage: page.nextPage && { ...page.nextPage, limit: pageSize } };
+    },
+    { enabled }
+  );
+
+  const loadMore = async () => {
+    const current = queryCache.getState<PagedData<T>>(key).data;
+    if (!current?.nextPage || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await fetchPage(current.nextPage);
+      queryCache.setData<PagedData<T>>(key, (previous) =>
+        appendPage(previous || { items: [], nextPage: null }, page, getId)
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  return {
+    ...query,
+    items: query.data?.items || [],
+    total: query.data?.total,
+    hasMore: !!query.data?.nextPage,
+    isLoadingMore,
+    loadMore,
+  };
+};
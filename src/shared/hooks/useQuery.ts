@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { queryCache, hashQueryKey, QueryKey, DEFAULT_STALE_TIME } from '../utils/queryCache';
+
+interface UseQueryOptions {
+  // Skip fetching, e.g. until the data a request depends on is loaded
+  enabled?: boolean;
+  // How long a result is served without revalidating
+  staleTime?: number;
+  // Refetch periodically while mounted
+  refetchInterval?: number;
+  // Revalidate when the window regains focus (default true)
+  refetchOnFocus?: boolean;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: any;
+  // True until the first result (or error) for this key is available
+  isLoading: boolean;
+  // True whenever a request for this key is in flight
+  isFetching: boolean;
+  refetch: () => Promise<T | undefined>;
+}
+
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME, refetchInterval, refetchOnFocus = true } = options;
+  // Callers build the key inline; a copy that only changes with its contents
+  // keeps the callbacks below stable across renders
+  const keyString = hashQueryKey(key);
+  const queryKey = useMemo(() => JSON.parse(keyString) as QueryKey, [keyString]);
+
+  // Keep the latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (listener: () => void) => queryCache.subscribe(queryKey, listener),
+    [queryKey]
+  );
+  const state = useSyncExternalStore(subscribe, () => queryCache.getState<T>(queryKey));
+
+  const refetch = useCallback(
+    () => queryCache.fetch(queryKey, () => fetcherRef.current(), { force: true }),
+    [queryKey]
+  );
+
+  // Stale-while-revalidate: cached data is returned immediately and a
+  // background request is issued when it is older than staleTime
+  const revalidate = useCallback(() => {
+    if (queryCache.isStale(queryKey, staleTime)) {
+      queryCache.fetch(queryKey, () => fetcherRef.current()).catch(() => {
+        // Surfaced through the returned error
+      });
+    }
+  }, [queryKey, staleTime]);
+
+  useEffect(() => {
+    if (enabled) {
+      revalidate();
+    }
+  }, [enabled, revalidate]);
+
+  useEffect(() => {
+    if (!enabled || !refetchOnFocus) return;
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'visible') {
+        revalidate();
+      }
+    };
+    window.addEventListener('focus', handleFocus);
+    document.addEventListener('visibilitychange', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      document.removeEventListener('visibilitychange', handleFocus);
+    };
+  }, [enabled, refetchOnFocus, revalidate]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+
+    const interval = window.setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        refetch().catch(() => {
+          // Surfaced through the returned error
+        });
+      }
+    }, refetchInterval);
+    return () => window.clearInterval(interval);
+  }, [enabled, refetchInterval, refetch]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.updatedAt === 0 && state.error === undefined,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
+
+// Errors already handled. The cache keeps returning a failed query's error,
+// so this stops every remount from reporting the same failure again.
+const reportedErrors = new WeakSet<object>();
+
+// Run onError once per failed request, e.g. to show a toast or redirect
+export const useQueryError = (error: any, onError: (error: any) => void) => {
+  useEffect(() => {
+    if (error && typeof error === 'object' && !reportedErrors.has(error)) {
+      reportedErrors.add(error);
+      onError(error);
+    }
+  }, [error, onError]);
+};
@@ -0,0 +1,96 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// How one filter field is stored in the query string. Values equal to the
+// default are left out of the URL.
+export interface FilterParam<V> {
+  name: string;
+  defaultValue: V;
+  parse: (value: string | null) => V;
+  serialize: (value: V) => string;
+}
+
+export type FilterSchema<T> = { [K in keyof T]: FilterParam<T[K]> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const textParam = (name: string): FilterParam<string> => ({
+  name,
+  defaultValue: '',
+  parse: (value) => value || '',
+  serialize: (value) => value,
+});
+
+// yyyy-MM-dd; anything else is ignored
+export const dateParam = (name: string): FilterParam<string> => ({
+  name,
+  defaultValue: '',
+  parse: (value) => (value && DATE_PATTERN.test(value) ? value : ''),
+  serialize: (value) => value,
+});
+
+// Comma separated subset of `allowed`
+export const listParam = <V extends string>(name: string, allowed: readonly V[]): FilterParam<V[]> => ({
+  name,
+  defaultValue: [],
+  parse: (value) => (value || '').split(',').filter((item): item is V => allowed.includes(item as V)),
+  serialize: (value) => value.join(','),
+});
+
+// One of `allowed`, falling back to the default
+export const choiceParam = <V extends string>(name: string, allowed: readonly V[], defaultValue: V): FilterParam<V> => ({
+  name,
+  defaultValue,
+  parse: (value) => (allowed.includes(value as V) ? (value as V) : defaultValue),
+  serialize: (value) => value,
+});
+
+// Filter state kept in the query string so a filtered view can be shared by
+// link. `clearable` names the fields reset by clearFilters and counted by
+// isFiltered; by default that is every field.
+export const useSearchParamFilters = <T extends object>(
+  schema: FilterSchema<T>,
+  clearable: (keyof T)[] = Object.keys(schema) as (keyof T)[]
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => {
+    const parsed = {} as T;
+    (Object.keys(schema) as (keyof T)[]).forEach((field) => {
+      parsed[field] = schema[field].parse(searchParams.get(schema[field].name));
+    });
+    return parsed;
+  }, [schema, searchParams]);
+
+  const updateFilters = useCallback((patch: Partial<T>) => {
+    const next = { ...filters, ...patch };
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      (Object.keys(schema) as (keyof T)[]).forEach((field) => {
+        const { name, defaultValue, serialize } = schema[field];
+        const value = serialize(next[field]);
+        if (value && value !== serialize(defaultValue)) {
+          params.set(name, value);
+        } else {
+          params.delete(name);
+        }
+      });
+      return params;
+    }, { replace: true });
+  }, [schema, filters, setSearchParams]);
+
+  const clearFilters = useCallback(() => {
+    const defaults: Partial<T> = {};
+    clearable.forEach((field) => {
+      defaults[field] = schema[field].defaultValue;
+    });
+    updateFilters(defaults);
+  }, [schema, clearable, updateFilters]);
+
+  const isFiltered = clearable.some((field) => {
+    const { defaultValue, serialize } = schema[field];
+    return serialize(filters[field]) !== serialize(defaultValue);
+  });
+
+  return { filters, updateFilters, clearFilters, isFiltered };
+};
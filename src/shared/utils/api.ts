@@ -1,40 +1,13 @@
 import axios, { AxiosInstance } from 'axios';
+import { AppConfig, DEFAULT_CONFIG, getApiBaseUrl, getAuthApiBaseUrl, getUiBaseUrl } from './config';
 
-const baseUrl = import.meta.env.VITE_BASE_URL || window.location.origin;
-
-// Get API base URL from environment variables
-const getApiBaseUrl = () => {
-  // Use environment variables for API URL configuration
-  const apiBasePath = import.meta.env.VITE_API_BASE_PATH || '/groups';
-  
-  // For development, use VITE_BACKEND_URL if available
-  if (import.meta.env.MODE === 'development' && import.meta.env.VITE_BACKEND_URL) {
-    return import.meta.env.VITE_BACKEND_URL;
-  }
-  // For production, construct URL from base URL and API path
-  return `${baseUrl}${apiBasePath}`;
-};
-
-const API_BASE_URL = getApiBaseUrl();
-
-// Get API base URL from environment variables
-const getAuthApiBaseUrl = () => {
-  // Use environment variables for API URL configuration
-  const authApiBasePath = import.meta.env.VITE_AUTH_API_BASE_PATH || '/authn';
-
-  // For development, use VITE_AUTH_URL if available
-  if (import.meta.env.MODE === 'development' && import.meta.env.VITE_AUTH_URL) {
-    return import.meta.env.VITE_AUTH_URL;
-  }
-  // For production, construct URL from base URL and API path
-  return `${baseUrl}${authApiBasePath}`;
-};
-
-const AUTH_API_BASE_URL = getAuthApiBaseUrl();
+// Resolved from the runtime configuration by configureAPI()
+let AUTH_API_BASE_URL = getAuthApiBaseUrl(DEFAULT_CONFIG);
+let UI_BASE_URL = getUiBaseUrl(DEFAULT_CONFIG);
 
 // Create groups API axios instance
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: getApiBaseUrl(DEFAULT_CONFIG),
   withCredentials: true, // Include cookies for session authentication
   headers: {
     'Content-Type': 'application/json',
@@ -51,7 +24,7 @@ const auth = axios.create({
 });
 
 // Function to apply common interceptors to any axios instance
-const setupInterceptors = (axiosInstance: AxiosInstance, authBaseUrl: string) => {
+const setupInterceptors = (axiosInstance: AxiosInstance) => {
   // Request interceptor
   axiosInstance.interceptors.request.use(
     (config) => {
@@ -69,7 +42,7 @@ const setupInterceptors = (axiosInstance: AxiosInstance, authBaseUrl: string) =>
     (response) => response,
     (error) => {
       if (error.response?.status === 401) {
-        window.location.href = `${authBaseUrl}/login?referrer=${encodeURIComponent(window.location.href)}`;
+        window.location.href = `${AUTH_API_BASE_URL}/login?referrer=${encodeURIComponent(window.location.href)}`;
         return Promise.reject(error);
       }
 
@@ -90,8 +63,16 @@ const setupInterceptors = (axiosInstance: AxiosInstance, authBaseUrl: string) =>
 };
 
 // Apply to both instances
-setupInterceptors(api, AUTH_API_BASE_URL);
-setupInterceptors(auth, AUTH_API_BASE_URL);
+setupInterceptors(api);
+setupInterceptors(auth);
+
+// Point both instances at the hosts named in the runtime configuration
+export const configureAPI = (config: AppConfig) => {
+  AUTH_API_BASE_URL = getAuthApiBaseUrl(config);
+  UI_BASE_URL = getUiBaseUrl(config);
+  api.defaults.baseURL = getApiBaseUrl(config);
+  auth.defaults.baseURL = AUTH_API_BASE_URL;
+};
 
 // Types
 export interface User {
@@ -138,14 +119,30 @@ export interface GroupInvitation {
   token: string;
   created_at: string;
   expires_at: string;
-  status: 'pending' | 'accepted' | 'expired' | 'revoked';
+  status: 'pending' | 'accepted' | 'expired' | 'revoked' | 'declined';
   invited_by: string;
   accepted_at?: string;
   accepted_by?: string;
-  metadata: Record<string, any>;
+  declined_at?: string;
+  decline_reason?: string;
+  metadata: InvitationMetadata;
   group?: Group;
 }
 
+// Optional details attached to an invitation by the inviter
+export interface InvitationMetadata {
+  message?: string;
+  [key: string]: any;
+}
+
+export interface CreateInvitationData {
+  email: string;
+  role: string;
+  // Defaults to the server's expiry period when omitted
+  expires_in_days?: number;
+  metadata?: InvitationMetadata;
+}
+
 export interface JoinRequest {
   id: string;
   group_id: string;
@@ -164,18 +161,132 @@ export interface JoinRequest {
   group?: Group;
 }
 
+// Tokenized /join/:token link for requesting to join a group
+export interface JoinLink {
+  id: string;
+  group_id: string;
+  token: string;
+  default_role: 'member' | 'manager' | 'administrator';
+  created_at: string;
+  created_by: string;
+  expires_at?: string;
+  max_uses?: number;
+  use_count: number;
+  // Join requests submitted through this link
+  request_count: number;
+  status: 'active' | 'expired' | 'revoked';
+}
+
+export interface CreateJoinLinkData {
+  default_role: string;
+  // Omit for links that never expire or have no usage limit
+  expires_in_days?: number;
+  max_uses?: number;
+}
+
+// Audit trail entry for a group. The target is the member, invitation or
+// join request acted on; settings changes have none.
+export type AuditEventCategory = 'membership' | 'role' | 'invitation' | 'join_request' | 'settings';
+
+export interface AuditEvent {
+  id: string;
+  group_id: string;
+  // Only set on the cross-group feed
+  group_name?: string;
+  category: AuditEventCategory;
+  // Dotted action name, e.g. 'member.added', 'role.changed', 'invitation.revoked'
+  action: string;
+  actor_id: string;
+  actor_email?: string;
+  target_id?: string;
+  target_email?: string;
+  created_at: string;
+  // Changed fields with their previous and new values, e.g. { role: { from, to } }
+  changes?: Record<string, { from?: any; to?: any }>;
+  details?: Record<string, any>;
+}
+
+export interface AuditEventFilters {
+  // Comma-separated list of categories
+  category?: string;
+  actor_id?: string;
+  // Inclusive ISO dates (yyyy-MM-dd)
+  from?: string;
+  to?: string;
+}
+
+// In-app notification for the current user. group_id and data identify
+// what the notification is about, e.g. data.request_id for join requests.
+export type NotificationType =
+  | 'invitation_received'
+  | 'join_request_received'
+  | 'join_request_approved'
+  | 'join_request_denied'
+  | 'role_changed'
+  | 'member_removed';
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  group_id?: string;
+  group_name?: string;
+  created_at: string;
+  // Unset while unread
+  read_at?: string | null;
+  data?: Record<string, any>;
+}
+
+// Pagination
+//
+// List endpoints accept either cursor or offset paging. Backends that don't
+// paginate ignore the parameters and return the full list without metadata,
+// which toPage() treats as a single, complete page.
+export interface PageParams {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface PageMeta {
+  total?: number;
+  next_cursor?: string | null;
+}
+
+export interface Page<T> {
+  items: T[];
+  total?: number;
+  // Parameters for the following page, null when there are no more items
+  nextPage: PageParams | null;
+}
+
+export const toPage = <T>(items: T[], meta: PageMeta, params: PageParams = {}): Page<T> => {
+  const { limit } = params;
+  let nextPage: PageParams | null = null;
+
+  if (meta.next_cursor) {
+    nextPage = { limit, cursor: meta.next_cursor };
+  } else if (limit && items.length <= limit && meta.next_cursor === undefined) {
+    const offset = (params.offset || 0) + items.length;
+    const hasMore = meta.total !== undefined ? offset < meta.total : items.length === limit;
+    if (hasMore) {
+      nextPage = { limit, offset };
+    }
+  }
+
+  return { items, total: meta.total, nextPage };
+};
+
 // Auth API
 export const authAPI = {
   getCurrentUser: () => auth.get<User>('/session'),
   login: (referrer?: string) => {
-    const uiBasePath = import.meta.env.VITE_UI_BASE_PATH || '/deriva/apps';
-    const defaultReferrer = `${window.location.origin}${uiBasePath}/`;
+    const defaultReferrer = `${UI_BASE_URL}/`;
     const redirect = referrer || defaultReferrer;
     window.location.href = `${AUTH_API_BASE_URL}/login?referrer=${encodeURIComponent(redirect)}`;
   },
   logout: async (redirectUrl?: string) => {
-    const uiBasePath = import.meta.env.VITE_UI_BASE_PATH || '/deriva/apps';
-    const defaultRedirect = `${window.location.origin}${uiBasePath}/`;
+    const defaultRedirect = `${UI_BASE_URL}/`;
     const redirect = redirectUrl || defaultRedirect;
     
     try {
@@ -198,8 +309,8 @@ export const authAPI = {
 // Groups API
 export const groupsAPI = {
   // Groups
-  listGroups: (myGroupsOnly = false) =>
-    api.get<{ groups: Group[] }>(`/groups${myGroupsOnly ? '/my' : ''}`),
+  listGroups: (myGroupsOnly = false, page?: PageParams) =>
+    api.get<{ groups: Group[] } & PageMeta>(`/groups${myGroupsOnly ? '/my' : ''}`, { params: page }),
 
   createGroup: (data: { name: string; description?: string; visibility?: string; metadata?: Record<string, any> }) =>
     api.post<Group>('/groups', data),
@@ -214,8 +325,8 @@ export const groupsAPI = {
     api.delete(`/groups/${groupId}`),
 
   // Members
-  getGroupMembers: (groupId: string) =>
-    api.get<{ members: GroupMembership[] }>(`/groups/${groupId}/members`),
+  getGroupMembers: (groupId: string, page?: PageParams) =>
+    api.get<{ members: GroupMembership[] } & PageMeta>(`/groups/${groupId}/members`, { params: page }),
 
   addGroupMember: (groupId: string, data: { user_id: string; email: string; role: string }) =>
     api.post<GroupMembership>(`/groups/${groupId}/members`, data),
@@ -235,9 +346,14 @@ export const groupsAPI = {
   getGroupInvitations: (groupId: string) =>
     api.get<{ invitations: GroupInvitation[] }>(`/groups/${groupId}/invitations`),
 
-  createInvitation: (groupId: string, data: { email: string; role: string }) =>
+  createInvitation: (groupId: string, data: CreateInvitationData) =>
     api.post<GroupInvitation>(`/groups/${groupId}/invitations`, data),
 
+  // Re-sends the invitation email and moves the expiry forward; works for
+  // pending and expired invitations
+  resendInvitation: (groupId: string, invitationId: string, data: { expires_in_days?: number }) =>
+    api.post<GroupInvitation>(`/groups/${groupId}/invitations/${invitationId}/resend`, data),
+
   revokeInvitation: (groupId: string, invitationId: string) =>
     api.delete(`/groups/${groupId}/invitations/${invitationId}`),
 
@@ -247,8 +363,21 @@ export const groupsAPI = {
   acceptInvitation: (token: string) =>
     api.post<GroupMembership>(`/invitations/${token}/accept`),
 
+  declineInvitation: (token: string, data: { reason?: string }) =>
+    api.post<GroupInvitation>(`/invitations/${token}/decline`, data),
+
   getInvitationInfo: (token: string) =>
-    api.get<{ group_name: string; group_description: string; role: string; expires_at: string; is_valid: boolean }>(`/invitations/${token}`),
+    api.get<{ group_name: string; group_description: string; role: string; expires_at: string; is_valid: boolean; metadata?: InvitationMetadata }>(`/invitations/${token}`),
+
+  // Audit trail, newest first
+  getAuditEvents: (groupId: string, filters: AuditEventFilters = {}, page?: PageParams) =>
+    api.get<{ events: AuditEvent[] } & PageMeta>(`/groups/${groupId}/audit-events`, {
+      params: { ...filters, ...page },
+    }),
+
+  // Recent events across every group the current user belongs to
+  getMyAuditEvents: (page?: PageParams) =>
+    api.get<{ events: AuditEvent[] } & PageMeta>('/groups/my/audit-events', { params: page }),
 
   // Public group info (no authentication required)
   getPublicGroupInfo: (groupId: string) =>
@@ -277,6 +406,16 @@ export const joinRequestsAPI = {
   createJoinRequest: (groupId: string, data: { message?: string }) =>
     api.post<JoinRequest>(`/groups/${groupId}/request-to-join`, data),
 
+  // Join links (for admins/managers)
+  getJoinLinks: (groupId: string) =>
+    api.get<{ join_links: JoinLink[] }>(`/groups/${groupId}/join-links`),
+
+  createJoinLink: (groupId: string, data: CreateJoinLinkData) =>
+    api.post<JoinLink>(`/groups/${groupId}/join-links`, data),
+
+  revokeJoinLink: (groupId: string, linkId: string) =>
+    api.delete(`/groups/${groupId}/join-links/${linkId}`),
+
   // Public join request endpoints
   getJoinInfo: (token: string) =>
     api.get<{ group_name: string; group_description: string; is_valid: boolean; expires_at: string }>(`/join/${token}`),
@@ -285,4 +424,17 @@ export const joinRequestsAPI = {
     api.post<JoinRequest>(`/join/${token}`, data),
 };
 
+// Notifications API
+export const notificationsAPI = {
+  // Newest first, with the total unread count
+  getNotifications: (params?: { limit?: number }) =>
+    api.get<{ notifications: UserNotification[]; unread_count: number }>('/notifications', { params }),
+
+  markRead: (ids: string[]) =>
+    api.post('/notifications/read', { ids }),
+
+  markAllRead: () =>
+    api.post('/notifications/read-all'),
+};
+
 export default api;
\ No newline at end of file
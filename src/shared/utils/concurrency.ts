@@ -0,0 +1,39 @@
+// Run a task for each item with at most `limit` tasks in flight, collecting a
+// per-item result instead of stopping at the first failure.
+
+export interface TaskResult<T, R = unknown> {
+  item: T;
+  ok: boolean;
+  value?: R;
+  error?: any;
+}
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  options: { limit?: number; onProgress?: (completed: number, total: number) => void } = {}
+): Promise<TaskResult<T, R>[]> => {
+  const { limit = DEFAULT_CONCURRENCY, onProgress } = options;
+  const results: TaskResult<T, R>[] = new Array(items.length);
+  let next = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const item = items[index];
+      try {
+        results[index] = { item, ok: true, value: await task(item) };
+      } catch (error) {
+        results[index] = { item, ok: false, error };
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,128 @@
+// Runtime configuration
+//
+// Deployment paths are read from a JSON file served next to index.html instead
+// of being baked into the bundle at build time, so the same image can be used
+// for every DERIVA host. The file can be replaced or generated at container
+// start (see config/docker-entrypoint.d).
+
+export interface AppConfig {
+  // Origin of the DERIVA host, e.g. https://example.org
+  baseUrl: string;
+  // Path of the groups service on the host
+  apiBasePath: string;
+  // Path of the authn service on the host
+  authApiBasePath: string;
+  // Path the UI is served under, used as the router basename and for links
+  uiBasePath: string;
+  // Full URL overrides, mainly for development against a remote backend
+  apiUrl?: string;
+  authUrl?: string;
+}
+
+const CONFIG_FILE_URL = `${import.meta.env.BASE_URL}config.json`;
+
+export const DEFAULT_CONFIG: AppConfig = {
+  baseUrl: window.location.origin,
+  apiBasePath: '/groups',
+  authApiBasePath: '/authn',
+  uiBasePath: '/deriva/apps/groups',
+};
+
+const stripTrailingSlash = (value: string) => value.replace(/\/+$/, '');
+
+// Validate the raw file contents and merge them over the defaults
+export const validateConfig = (raw: unknown): AppConfig => {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Configuration must be a JSON object');
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const config: AppConfig = { ...DEFAULT_CONFIG };
+
+  const readString = (key: keyof AppConfig) => {
+    const value = data[key];
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      errors.push(`"${key}" must be a string`);
+      return undefined;
+    }
+    return value.trim();
+  };
+
+  const readUrl = (key: keyof AppConfig) => {
+    const value = readString(key);
+    if (value === undefined) return undefined;
+    try {
+      new URL(value);
+    } catch {
+      errors.push(`"${key}" must be an absolute URL`);
+      return undefined;
+    }
+    return stripTrailingSlash(value);
+  };
+
+  const readPath = (key: keyof AppConfig) => {
+    const value = readString(key);
+    if (value === undefined) return undefined;
+    if (!value.startsWith('/')) {
+      errors.push(`"${key}" must be a path starting with "/"`);
+      return undefined;
+    }
+    return stripTrailingSlash(value) || '/';
+  };
+
+  const baseUrl = readUrl('baseUrl');
+  const apiBasePath = readPath('apiBasePath');
+  const authApiBasePath = readPath('authApiBasePath');
+  const uiBasePath = readPath('uiBasePath');
+  const apiUrl = readUrl('apiUrl');
+  const authUrl = readUrl('authUrl');
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration: ${errors.join('; ')}`);
+  }
+
+  if (baseUrl) config.baseUrl = baseUrl;
+  if (apiBasePath) config.apiBasePath = apiBasePath;
+  if (authApiBasePath) config.authApiBasePath = authApiBasePath;
+  if (uiBasePath) config.uiBasePath = uiBasePath;
+  if (apiUrl) config.apiUrl = apiUrl;
+  if (authUrl) config.authUrl = authUrl;
+
+  return config;
+};
+
+// Fetch and validate the configuration file. A missing file falls back to the
+// defaults so a plain `vite` dev server works without any setup.
+export const loadConfig = async (): Promise<AppConfig> => {
+  const response = await fetch(CONFIG_FILE_URL, { cache: 'no-store' });
+
+  if (response.status === 404) {
+    console.warn(`No configuration found at ${CONFIG_FILE_URL}, using defaults`);
+    return { ...DEFAULT_CONFIG };
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load configuration (${response.status})`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new Error(`Configuration at ${CONFIG_FILE_URL} is not valid JSON`);
+  }
+  return validateConfig(raw);
+};
+
+// Derived URLs
+export const getApiBaseUrl = (config: AppConfig) =>
+  config.apiUrl || `${config.baseUrl}${config.apiBasePath}`;
+
+export const getAuthApiBaseUrl = (config: AppConfig) =>
+  config.authUrl || `${config.baseUrl}${config.authApiBasePath}`;
+
+export const getUiBaseUrl = (config: AppConfig) =>
+  `${window.location.origin}${config.uiBasePath === '/' ? '' : config.uiBasePath}`;
@@ -0,0 +1,74 @@
+// Client-side file export helpers
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+const escapeCsvValue = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheet apps run cells starting with these as formulas. Free text such
+// as join request messages and decline reasons is user supplied, so text
+// cells get a leading quote to keep them inert.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value: ReturnType<ExportColumn<unknown>['value']>) => {
+  const text = String(value ?? '');
+  return escapeCsvValue(typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text);
+};
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]) => {
+  const lines = [
+    columns.map((column) => escapeCsvValue(column.header)).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => toCsvCell(column.value(row))).join(',')
+    ),
+  ];
+  return lines.join('\r\n');
+};
+
+// Rows as plain objects keyed by column header
+export const toJson = <T>(rows: T[], columns: ExportColumn<T>[]) =>
+  JSON.stringify(
+    rows.map((row) =>
+      Object.fromEntries(columns.map((column) => [column.header, column.value(row) ?? null]))
+    ),
+    null,
+    2
+  );
+
+// Save an object or data URL under the given file name
+export const downloadUrl = (filename: string, url: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  downloadUrl(filename, url);
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadCsv = <T>(filename: string, rows: T[], columns: ExportColumn<T>[]) => {
+  downloadFile(filename, toCsv(rows, columns), 'text/csv;charset=utf-8');
+};
+
+export const downloadJson = <T>(filename: string, rows: T[], columns: ExportColumn<T>[]) => {
+  downloadFile(filename, toJson(rows, columns), 'application/json');
+};
+
+export type ExportFormat = 'csv' | 'json';
+
+export const downloadExport = <T>(format: ExportFormat, filename: string, rows: T[], columns: ExportColumn<T>[]) => {
+  if (format === 'json') {
+    downloadJson(`${filename}.json`, rows, columns);
+  } else {
+    downloadCsv(`${filename}.csv`, rows, columns);
+  }
+};
@@ -0,0 +1,179 @@
+// Shared cache for API reads
+//
+// Entries are keyed by resource (see queryKeys in hooks/useGroupsQueries) and
+// hold the last successful result, so pages can render cached data straight
+// away and revalidate in the background. Concurrent fetches of the same key
+// share one request, and mutations invalidate only the keys they affect.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T> {
+  data?: T;
+  error?: any;
+  // Time of the last successful fetch, 0 if never loaded
+  updatedAt: number;
+  isFetching: boolean;
+  // Set by invalidate(); forces the next read to refetch
+  isInvalidated: boolean;
+}
+
+interface CacheEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  promise?: Promise<T>;
+  fetcher?: () => Promise<T>;
+  listeners: Set<() => void>;
+}
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const initialState: QueryState<any> = {
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const entries = new Map<string, CacheEntry<any>>();
+
+// Prefixes whose cached data carries a local change that is not yet sent
+// (see utils/undoableActions). Refetching them would bring back the server's
+// old state, so requests wait until every hold is released.
+const holds: QueryKey[] = [];
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key);
+
+const getEntry = <T>(key: QueryKey): CacheEntry<T> => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: initialState, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+const setState = <T>(entry: CacheEntry<T>, patch: Partial<QueryState<T>>) => {
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+};
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => hashQueryKey([key[index]]) === hashQueryKey([part]));
+
+const findEntries = (prefix: QueryKey) =>
+  Array.from(entries.values()).filter((entry) => matchesPrefix(entry.key, prefix));
+
+const isHeld = (key: QueryKey) => holds.some((prefix) => matchesPrefix(key, prefix));
+
+export const queryCache = {
+  getState: <T>(key: QueryKey): QueryState<T> => getEntry<T>(key).state,
+
+  subscribe: (key: QueryKey, listener: () => void) => {
+    const entry = getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  },
+
+  isStale: (key: QueryKey, staleTime = DEFAULT_STALE_TIME) => {
+    const { state } = getEntry(key);
+    return state.isInvalidated || state.updatedAt === 0 || Date.now() - state.updatedAt > staleTime;
+  },
+
+  // Fetch a key, reusing the in-flight request unless `force` is set. Only the
+  // most recent request for a key is allowed to write its result. A held key
+  // resolves to its cached data, which may not have been loaded yet.
+  fetch: <T>(key: QueryKey, fetcher: () => Promise<T>, options: { force?: boolean } = {}): Promise<T | undefined> => {
+    const entry = getEntry<T>(key);
+    entry.fetcher = fetcher;
+
+    // Serve the held data and refetch once the hold is released
+    if (isHeld(key)) {
+      setState(entry, { isInvalidated: true });
+      return Promise.resolve(entry.state.data);
+    }
+
+    if (entry.promise && !options.force) {
+      return entry.promise;
+    }
+
+    const promise = fetcher().then(
+      (data) => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isInvalidated: false });
+        }
+        return data;
+      },
+      (error) => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          setState(entry, { error, isFetching: false });
+        }
+        throw error;
+      }
+    );
+
+    entry.promise = promise;
+    setState(entry, { isFetching: true });
+    return promise;
+  },
+
+  // Replace cached data without a request, e.g. after a mutation response
+  setData: <T>(key: QueryKey, updater: T | ((previous: T | undefined) => T)) => {
+    const entry = getEntry<T>(key);
+    const data = typeof updater === 'function'
+      ? (updater as (previous: T | undefined) => T)(entry.state.data)
+      : updater;
+    setState(entry, { data, error: undefined, updatedAt: entry.state.updatedAt || Date.now() });
+  },
+
+  // Mark every key starting with `prefix` as stale and refetch the ones that
+  // are currently displayed; the rest refetch the next time they are read.
+  invalidate: (prefix: QueryKey) => {
+    findEntries(prefix).forEach((entry) => {
+      setState(entry, { isInvalidated: true });
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        queryCache.fetch(entry.key, entry.fetcher, { force: true }).catch(() => {
+          // Surfaced through the entry's error state
+        });
+      }
+    });
+  },
+
+  // Hold back requests for every key starting with `prefix`. A request
+  // already in flight is discarded. The returned function releases the hold
+  // and refetches the displayed keys that were read or invalidated meanwhile.
+  hold: (prefix: QueryKey) => {
+    holds.push(prefix);
+    findEntries(prefix).forEach((entry) => {
+      if (entry.promise) {
+        entry.promise = undefined;
+        setState(entry, { isFetching: false, isInvalidated: true });
+      }
+    });
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      holds.splice(holds.indexOf(prefix), 1);
+      findEntries(prefix).forEach((entry) => {
+        if (entry.state.isInvalidated && entry.listeners.size > 0 && entry.fetcher && !isHeld(entry.key)) {
+          queryCache.fetch(entry.key, entry.fetcher, { force: true }).catch(() => {
+            // Surfaced through the entry's error state
+          });
+        }
+      });
+    };
+  },
+
+  // Drop cached data entirely, e.g. for a deleted group
+  remove: (prefix: QueryKey) => {
+    findEntries(prefix).forEach((entry) => {
+      entry.promise = undefined;
+      setState(entry, initialState);
+    });
+  },
+};
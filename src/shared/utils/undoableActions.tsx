@@ -0,0 +1,145 @@
+import React from 'react';
+import toast from 'react-hot-toast';
+import { queryCache, QueryKey } from './queryCache';
+
+// Deferred commits for destructive actions
+//
+// The local change is applied right away, but the request is held back for
+// UNDO_WINDOW behind an "Undo" toast. Actions are tracked at module level so a
+// pending commit still goes through when the page that started it unmounts.
+// Closing the tab would drop it, so the browser asks for confirmation while
+// anything is pending.
+
+export const UNDO_WINDOW = 5000;
+export const REVERT_WINDOW = 10000;
+
+export interface UndoableAction {
+  id: string;
+  // Shown in the toast while the action can still be undone
+  message: string;
+  commit: () => Promise<unknown>;
+  // Revert the local change; called when undone before the commit
+  onUndo: () => void;
+  onCommitted?: () => void;
+  onError?: (error: any) => void;
+  // Cached queries showing the local change; they are not refetched until
+  // the action is committed or undone
+  queryKeys?: QueryKey[];
+  // Offered after the commit to reverse it with a follow-up request
+  revert?: {
+    message: string;
+    run: () => Promise<unknown>;
+  };
+}
+
+interface PendingAction {
+  action: UndoableAction;
+  timer: number;
+  release: () => void;
+}
+
+const pending = new Map<string, PendingAction>();
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo }) => (
+  <span className="flex items-center">
+    <span>{message}</span>
+    <button
+      type="button"
+      onClick={onUndo}
+      className="ml-4 text-sm font-medium text-primary-600 hover:text-primary-500"
+    >
+      Undo
+    </button>
+  </span>
+);
+
+const toastId = (id: string) => `undo:${id}`;
+
+const showRevertToast = (action: UndoableAction) => {
+  const { revert } = action;
+  if (!revert) return;
+
+  const handleRevert = async () => {
+    toast.dismiss(toastId(action.id));
+    try {
+      await revert.run();
+      toast.success(revert.message);
+    } catch (error: any) {
+      console.error('Failed to undo action:', error);
+      toast.error(error.userMessage || 'Failed to undo');
+    }
+  };
+
+  toast.success(
+    <UndoToast message={action.message} onUndo={handleRevert} />,
+    { id: toastId(action.id), duration: REVERT_WINDOW }
+  );
+};
+
+const commitAction = async (id: string) => {
+  const entry = pending.get(id);
+  if (!entry) return;
+
+  pending.delete(id);
+  window.clearTimeout(entry.timer);
+  const { action } = entry;
+
+  try {
+    await action.commit();
+    action.onCommitted?.();
+    showRevertToast(action);
+  } catch (error: any) {
+    console.error('Failed to commit action:', error);
+    action.onUndo();
+    if (action.onError) {
+      action.onError(error);
+    } else {
+      toast.error(error.userMessage || 'Action failed');
+    }
+  } finally {
+    entry.release();
+  }
+};
+
+// Undo a pending action. Returns false if it was already committed.
+export const undoAction = (id: string) => {
+  const entry = pending.get(id);
+  if (!entry) return false;
+
+  pending.delete(id);
+  window.clearTimeout(entry.timer);
+  toast.dismiss(toastId(id));
+  entry.action.onUndo();
+  entry.release();
+  return true;
+};
+
+export const scheduleUndoable = (action: UndoableAction) => {
+  // Scheduling the same action again commits the earlier one first
+  if (pending.has(action.id)) {
+    commitAction(action.id);
+  }
+
+  const releases = (action.queryKeys || []).map((key) => queryCache.hold(key));
+  const timer = window.setTimeout(() => commitAction(action.id), UNDO_WINDOW);
+  pending.set(action.id, { action, timer, release: () => releases.forEach((release) => release()) });
+
+  toast(
+    <UndoToast message={action.message} onUndo={() => undoAction(action.id)} />,
+    { id: toastId(action.id), duration: UNDO_WINDOW }
+  );
+};
+
+// Requests started while the page unloads are routinely cancelled, so rather
+// than committing here the user is warned that pending changes would be lost
+window.addEventListener('beforeunload', (event) => {
+  if (pending.size > 0) {
+    event.preventDefault();
+    event.returnValue = '';
+  }
+});